@@ -0,0 +1,436 @@
+// In-memory stand-in for the cyphersol API, for local development and manual testing.
+//
+//   npm run mock            # listens on http://localhost:3000 (the dev default API url)
+//   MOCK_PORT=4000 npm run mock
+//
+// Any email/password signs in. State lives in memory and resets on restart.
+// Saving a workflow with a stale `expectedUpdatedAt` answers 409 with the current copy,
+// so opening the same workflow in two tabs reproduces an edit conflict.
+// GET /executions/:id/stream serves live updates as server-sent events; start the mock
+// with MOCK_NO_STREAM=1 to answer 404 there and exercise the polling fallback.
+// A node with `"mockFail": true` in its data fails, except in resumed runs, so
+// replay and resume-from-failed-node can be tried end to end.
+import { createServer } from 'node:http'
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto'
+
+const PORT = Number(process.env.MOCK_PORT || 3000)
+const USER = { id: 'user-1', email: 'dev@cyphersol.local' }
+
+const db = {
+  workflows: new Map(),
+  executions: new Map(),
+  credentials: new Map(),
+}
+
+let clock = 0
+// strictly increasing timestamps, so two saves in the same millisecond still differ
+function now() {
+  clock = Math.max(Date.now(), clock + 1)
+  return new Date(clock).toISOString()
+}
+
+function seed() {
+  const createdAt = now()
+  const wf = {
+    id: randomUUID(),
+    userId: USER.id,
+    name: 'sample workflow',
+    enabled: false,
+    overlapPolicy: 'skip',
+    maxBacklog: 5,
+    definition: {
+      nodes: [
+        { id: 'n1', position: { x: 0, y: 0 }, data: { label: 'timer_trigger', type: 'timer_trigger', intervalSeconds: 60 } },
+        { id: 'n2', position: { x: 0, y: 150 }, data: { label: 'log', type: 'log', message: 'hello' } },
+      ],
+      edges: [{ id: 'n1-n2', source: 'n1', target: 'n2' }],
+    },
+    createdAt,
+    updatedAt: createdAt,
+  }
+  db.workflows.set(wf.id, wf)
+  const cred = { id: randomUUID(), provider: 'solana_wallet', name: 'dev wallet', publicKey: 'DevWa11et1111111111111111111111111111111111', createdAt, updatedAt: createdAt }
+  db.credentials.set(cred.id, cred)
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'content-type': 'application/json' })
+  res.end(body === undefined ? '' : JSON.stringify(body))
+}
+
+function fail(res, status, message, code, details) {
+  send(res, status, { error: { message, code, requestId: randomUUID().slice(0, 8), details } })
+}
+
+async function readRawBody(req) {
+  let text = ''
+  for await (const chunk of req) text += chunk
+  return text
+}
+
+async function readBody(req) {
+  const text = await readRawBody(req)
+  if (!text) return {}
+  try {
+    return JSON.parse(text)
+  } catch {
+    return {}
+  }
+}
+
+function summary(execution) {
+  const { logs, nodeStatuses, nodeOutputs, ...rest } = execution
+  return rest
+}
+
+function startExecution(wf, trigger) {
+  const createdAt = now()
+  const execution = {
+    id: randomUUID(),
+    workflowId: wf.id,
+    userId: USER.id,
+    triggerNodeId: trigger?.id,
+    triggerType: trigger?.data?.type,
+    status: 'queued',
+    logs: [],
+    nodeStatuses: {},
+    nodeOutputs: {},
+    createdAt,
+    updatedAt: createdAt,
+  }
+  db.executions.set(execution.id, execution)
+  return execution
+}
+
+// Workflow ids from this execution up through the runs that called it
+function callers(execution) {
+  return execution ? [execution.workflowId, ...callers(db.executions.get(execution.parentExecutionId))] : []
+}
+
+// Walks the graph from the trigger that fired, one node every 400ms
+// `fromNodeId` resumes there; nodes before it keep the outputs already on the execution
+function simulateRun(wf, execution, fromNodeId) {
+  const nodes = wf.definition?.nodes ?? []
+  const edges = wf.definition?.edges ?? []
+  const trigger = nodes.find((n) => n.id === execution.triggerNodeId) ?? nodes[0]
+  const order = []
+  const seen = new Set()
+  const queue = fromNodeId ? [fromNodeId] : trigger ? [trigger.id] : []
+  while (queue.length) {
+    const id = queue.shift()
+    if (seen.has(id)) continue
+    seen.add(id)
+    order.push(id)
+    for (const e of edges) if (e.source === id && !seen.has(e.target)) queue.push(e.target)
+  }
+
+  const log = (level, message, nodeId) => execution.logs.push({ timestamp: now(), level, message, nodeId })
+  execution.status = 'running'
+  execution.startedAt = now()
+  for (const n of nodes) {
+    execution.nodeStatuses[n.id] = seen.has(n.id)
+      ? { status: 'pending' }
+      : execution.nodeOutputs[n.id] !== undefined
+        ? { status: 'success', reused: true }
+        : { status: 'skipped' }
+  }
+  log('info', 'execution started')
+
+  let step = 0
+  const tick = () => {
+    if (step > 0) {
+      const prev = order[step - 1]
+      const node = nodes.find((n) => n.id === prev)
+      // call_workflow waits for its child run and outputs what it ended with
+      const childId = execution.nodeOutputs[prev]?.childExecutionId
+      const child = node?.data?.type === 'call_workflow' ? db.executions.get(childId) : undefined
+      if (child && (child.status === 'queued' || child.status === 'running')) return setTimeout(tick, 400)
+      if (child) execution.nodeOutputs[prev] = { childExecutionId: child.id, status: child.status, outputs: {} }
+      if (node?.data?.mockFail && execution.rerunMode !== 'resume') {
+        execution.nodeStatuses[prev] = { ...execution.nodeStatuses[prev], status: 'failed', finishedAt: now(), error: 'mock failure' }
+        log('error', `${node.data.type ?? 'node'} failed: mock failure`, prev)
+        execution.status = 'failed'
+        execution.finishedAt = now()
+        execution.updatedAt = execution.finishedAt
+        return
+      }
+      execution.nodeStatuses[prev] = { ...execution.nodeStatuses[prev], status: 'success', finishedAt: now() }
+      execution.nodeOutputs[prev] ??= node?.data?.type === 'if' ? { passed: true } : { ok: true }
+      log('info', `${node?.data?.type ?? 'node'} finished`, prev)
+    }
+    if (step >= order.length) {
+      execution.status = 'success'
+      execution.finishedAt = now()
+      execution.updatedAt = execution.finishedAt
+      log('info', 'execution finished')
+      return
+    }
+    const id = order[step]
+    execution.nodeStatuses[id] = { status: 'running', startedAt: now() }
+    execution.updatedAt = now()
+    const node = nodes.find((n) => n.id === id)
+    let childWf = node?.data?.type === 'call_workflow' ? db.workflows.get(node.data.childWorkflowId) : undefined
+    if (childWf && callers(execution).includes(childWf.id)) {
+      log('error', `${childWf.name} is already running further up this call chain`, id)
+      childWf = undefined
+    }
+    if (childWf) {
+      const child = startExecution(childWf, childWf.definition?.nodes?.find((n) => String(n.data?.type ?? '').endsWith('_trigger')))
+      Object.assign(child, { parentExecutionId: execution.id, parentNodeId: id })
+      child.nodeOutputs[child.triggerNodeId] = { input: node.data.inputMapping ?? {}, parentExecutionId: execution.id, parentWorkflowId: wf.id }
+      execution.nodeOutputs[id] = { childExecutionId: child.id }
+      log('info', `started ${childWf.name} (${child.id})`, id)
+      simulateRun(childWf, child)
+    }
+    step += 1
+    setTimeout(tick, 400)
+  }
+  tick()
+}
+
+async function route(req, res, url) {
+  const parts = url.pathname.split('/').filter(Boolean)
+  const method = req.method
+
+  if (parts[0] === 'auth') {
+    if (parts[1] === 'signup' || parts[1] === 'signin') {
+      const body = await readBody(req)
+      return send(res, 200, {
+        user: { ...USER, email: body.email || USER.email },
+        token: 'mock-token',
+        expiresAt: new Date(Date.now() + 86400000).toISOString(),
+      })
+    }
+    if (parts[1] === 'me') return send(res, 200, { user: USER })
+    if (parts[1] === 'signout') return send(res, 200, { ok: true })
+  }
+
+  // webhook_trigger endpoints are public; the signature or url token is the auth
+  if (parts[0] === 'webhooks' && parts.length === 3 && method === 'POST') {
+    const wf = db.workflows.get(parts[1])
+    const trigger = wf?.definition?.nodes?.find((n) => n.id === parts[2] && n.data?.type === 'webhook_trigger')
+    if (!trigger) return fail(res, 404, 'webhook not found', 'not_found')
+    const raw = await readRawBody(req)
+    const secret = String(trigger.data.signingSecret ?? '')
+    const given =
+      trigger.data.verification === 'token'
+        ? url.searchParams.get('token') ?? ''
+        : String(req.headers['x-cyphersol-signature'] ?? '')
+    const expected =
+      trigger.data.verification === 'token' ? secret : `sha256=${createHmac('sha256', secret).update(raw).digest('hex')}`
+    if (!secret || given.length !== expected.length || !timingSafeEqual(Buffer.from(given), Buffer.from(expected))) {
+      return fail(res, 401, 'invalid webhook signature', 'invalid_signature')
+    }
+    if (!wf.enabled) return fail(res, 409, 'workflow is disabled', 'workflow_disabled')
+    let body
+    try {
+      body = raw ? JSON.parse(raw) : {}
+    } catch {
+      return fail(res, 400, 'body must be JSON', 'invalid_body')
+    }
+    const execution = startExecution(wf, trigger)
+    execution.nodeOutputs[trigger.id] = { body, headers: { 'content-type': req.headers['content-type'] }, receivedAt: execution.createdAt }
+    simulateRun(wf, execution)
+    return send(res, 202, { executionId: execution.id })
+  }
+
+  if (!(req.headers.authorization || '').startsWith('Bearer ')) return fail(res, 401, 'unauthorized', 'unauthorized')
+
+  if (parts[0] === 'meta' && method === 'GET') {
+    return send(res, 200, {
+      jupiterSwapMaxAmount: 1,
+      jupiterSwapMaxSlippageBps: 300,
+      solanaTransferMaxSol: 1,
+      solanaTransferMaxTokenAmount: 1000,
+      solanaStakeMaxSol: 5,
+      solanaRestakeMaxSol: 5,
+    })
+  }
+
+  if (parts[0] === 'analytics' && method === 'GET') {
+    return send(res, 200, {
+      workflows: [...db.workflows.values()].map((w) => ({ id: w.id, name: w.name, enabled: !!w.enabled })),
+      executions: [...db.executions.values()].map((e) => ({
+        id: e.id,
+        workflowId: e.workflowId,
+        workflowName: db.workflows.get(e.workflowId)?.name ?? '',
+        status: e.status,
+        createdAt: e.createdAt,
+      })),
+    })
+  }
+
+  if (parts[0] === 'workflows') {
+    if (parts.length === 1 && method === 'GET') {
+      return send(res, 200, { workflows: [...db.workflows.values()].map(({ definition, ...w }) => w) })
+    }
+    if (parts.length === 1 && method === 'POST') {
+      const body = await readBody(req)
+      const createdAt = now()
+      const wf = {
+        id: randomUUID(),
+        userId: USER.id,
+        name: body.name || 'untitled workflow',
+        definition: body.definition ?? { nodes: [], edges: [] },
+        enabled: false,
+        overlapPolicy: 'skip',
+        maxBacklog: 5,
+        createdAt,
+        updatedAt: createdAt,
+      }
+      db.workflows.set(wf.id, wf)
+      return send(res, 200, { workflow: wf })
+    }
+
+    const wf = db.workflows.get(parts[1])
+    if (!wf) return fail(res, 404, 'workflow not found', 'not_found')
+
+    if (parts.length === 2 && method === 'GET') return send(res, 200, { workflow: wf })
+    if (parts.length === 2 && method === 'DELETE') {
+      db.workflows.delete(wf.id)
+      return send(res, 200, { ok: true })
+    }
+    if (parts.length === 2 && method === 'PATCH') {
+      const { expectedUpdatedAt, ...patch } = await readBody(req)
+      if (expectedUpdatedAt && expectedUpdatedAt !== wf.updatedAt) {
+        return fail(res, 409, 'workflow was changed by someone else', 'workflow_conflict', { workflow: wf })
+      }
+      for (const key of ['name', 'definition', 'enabled', 'overlapPolicy', 'maxBacklog']) {
+        if (patch[key] !== undefined) wf[key] = patch[key]
+      }
+      wf.updatedAt = now()
+      return send(res, 200, { workflow: wf })
+    }
+    if (parts[2] === 'run' && method === 'POST') {
+      const body = await readBody(req)
+      const triggers = (wf.definition?.nodes ?? []).filter((n) => String(n.data?.type ?? '').endsWith('_trigger'))
+      const trigger = triggers.find((n) => n.id === body.triggerNodeId) ?? triggers[0]
+      if (body.triggerNodeId && trigger?.id !== body.triggerNodeId) {
+        return fail(res, 400, `trigger ${body.triggerNodeId} not found`, 'invalid_trigger')
+      }
+      const execution = startExecution(wf, trigger)
+      simulateRun(wf, execution)
+      return send(res, 200, { execution })
+    }
+    if (parts[2] === 'executions' && method === 'GET') {
+      const executions = [...db.executions.values()]
+        .filter((e) => e.workflowId === wf.id)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(summary)
+      return send(res, 200, { executions })
+    }
+  }
+
+  // server-sent events: a snapshot, then whatever changed, until the run finishes
+  if (parts[0] === 'executions' && parts[2] === 'stream' && method === 'GET') {
+    if (process.env.MOCK_NO_STREAM) return fail(res, 404, 'streaming disabled', 'not_found')
+    const execution = db.executions.get(parts[1])
+    if (!execution) return fail(res, 404, 'execution not found', 'not_found')
+    res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-store', connection: 'keep-alive' })
+    const push = (type, payload) => res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`)
+    const seen = { logs: execution.logs.length, status: execution.status, nodes: {}, outputs: {} }
+    for (const [id, state] of Object.entries(execution.nodeStatuses)) seen.nodes[id] = JSON.stringify(state)
+    for (const [id, output] of Object.entries(execution.nodeOutputs)) seen.outputs[id] = JSON.stringify(output)
+    push('snapshot', { execution })
+
+    const flush = () => {
+      for (const log of execution.logs.slice(seen.logs)) push('log', { log })
+      seen.logs = execution.logs.length
+      for (const [id, state] of Object.entries(execution.nodeStatuses)) {
+        if (seen.nodes[id] === (seen.nodes[id] = JSON.stringify(state))) continue
+        push('node', { nodeId: id, state })
+      }
+      for (const [id, output] of Object.entries(execution.nodeOutputs)) {
+        if (seen.outputs[id] === (seen.outputs[id] = JSON.stringify(output))) continue
+        push('output', { nodeId: id, output })
+      }
+      if (execution.status !== seen.status) {
+        seen.status = execution.status
+        const { status, startedAt, finishedAt, updatedAt } = execution
+        push('status', { status, startedAt, finishedAt, updatedAt })
+      }
+      if (['success', 'failed', 'cancelled'].includes(execution.status)) {
+        clearInterval(timer)
+        res.end()
+      }
+    }
+    const timer = setInterval(flush, 100)
+    req.on('close', () => clearInterval(timer))
+    return
+  }
+
+  // replay from the recorded trigger payload, or resume at a failed node reusing what ran before it
+  if (parts[0] === 'executions' && (parts[2] === 'replay' || parts[2] === 'resume') && method === 'POST') {
+    const source = db.executions.get(parts[1])
+    if (!source) return fail(res, 404, 'execution not found', 'not_found')
+    const wf = db.workflows.get(source.workflowId)
+    if (!wf) return fail(res, 404, 'workflow not found', 'not_found')
+    const nodes = wf.definition?.nodes ?? []
+    const trigger = nodes.find((n) => n.id === source.triggerNodeId)
+    const execution = startExecution(wf, trigger)
+    Object.assign(execution, { rerunOfExecutionId: source.id, rerunMode: parts[2] })
+
+    if (parts[2] === 'replay') {
+      if (!trigger || source.nodeOutputs[trigger.id] === undefined) {
+        db.executions.delete(execution.id)
+        return fail(res, 400, 'no trigger payload to replay', 'no_trigger_payload')
+      }
+      execution.nodeOutputs[trigger.id] = source.nodeOutputs[trigger.id]
+      simulateRun(wf, execution)
+      return send(res, 200, { execution })
+    }
+
+    const { fromNodeId } = await readBody(req)
+    if (source.nodeStatuses[fromNodeId]?.status !== 'failed' || !nodes.some((n) => n.id === fromNodeId)) {
+      db.executions.delete(execution.id)
+      return fail(res, 400, `${fromNodeId} is not a failed node of this run`, 'invalid_resume_node')
+    }
+    const rerun = new Set([fromNodeId])
+    for (const id of rerun) for (const e of wf.definition?.edges ?? []) if (e.source === id) rerun.add(e.target)
+    for (const [id, output] of Object.entries(source.nodeOutputs)) if (!rerun.has(id)) execution.nodeOutputs[id] = output
+    execution.resumeFromNodeId = fromNodeId
+    simulateRun(wf, execution, fromNodeId)
+    return send(res, 200, { execution })
+  }
+
+  if (parts[0] === 'executions' && parts.length === 2 && method === 'GET') {
+    const execution = db.executions.get(parts[1])
+    if (!execution) return fail(res, 404, 'execution not found', 'not_found')
+    return send(res, 200, { execution })
+  }
+
+  if (parts[0] === 'credentials') {
+    if (parts.length === 1 && method === 'GET') return send(res, 200, { credentials: [...db.credentials.values()] })
+    if (parts.length === 1 && method === 'POST') {
+      const body = await readBody(req)
+      const createdAt = now()
+      const credential = { id: randomUUID(), provider: body.provider, name: body.name, createdAt, updatedAt: createdAt }
+      db.credentials.set(credential.id, credential)
+      return send(res, 200, { credential })
+    }
+    if (parts.length === 2 && method === 'DELETE') {
+      db.credentials.delete(parts[1])
+      return send(res, 200, { ok: true })
+    }
+  }
+
+  return fail(res, 404, `no mock route for ${method} ${url.pathname}`, 'not_found')
+}
+
+seed()
+
+createServer((req, res) => {
+  res.setHeader('access-control-allow-origin', req.headers.origin || '*')
+  res.setHeader('access-control-allow-headers', 'authorization, content-type')
+  res.setHeader('access-control-allow-methods', 'GET, POST, PATCH, DELETE, OPTIONS')
+  res.setHeader('access-control-expose-headers', 'x-request-id')
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204)
+    res.end()
+    return
+  }
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`)
+  route(req, res, url).catch((err) => fail(res, 500, String(err?.message || err), 'internal'))
+}).listen(PORT, () => {
+  console.log(`mock api listening on http://localhost:${PORT}`)
+})
@@ -1,6 +1,7 @@
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom'
 import RequireAuth from './components/RequireAuth'
 import Analytics from './pages/Analytics'
+import CompareExecutions from './pages/CompareExecutions'
 import Credentials from './pages/Credentials'
 import Dashboard from './pages/Dashboard'
 import ExecutionDetail from './pages/ExecutionDetail'
@@ -21,6 +22,7 @@ export default function App() {
           <Route path="/credentials" element={<Credentials />} />
           <Route path="/editor/:id" element={<Editor />} />
           <Route path="/workflows/:id/executions" element={<WorkflowExecutions />} />
+          <Route path="/workflows/:id/executions/compare" element={<CompareExecutions />} />
           <Route path="/executions/:id" element={<ExecutionDetail />} />
         </Route>
 
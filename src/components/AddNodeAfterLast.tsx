@@ -16,6 +16,7 @@ const nodeOptions: { value: string; label: string; category: NodeCategory; descr
   { value: 'timer_trigger', label: 'Timer', category: 'trigger', description: 'Run on schedule' },
   { value: 'price_trigger', label: 'Price Alert', category: 'trigger', description: 'Trigger on price' },
   { value: 'onchain_trigger', label: 'On-Chain', category: 'trigger', description: 'Watch wallet txs' },
+  { value: 'webhook_trigger', label: 'Webhook', category: 'trigger', description: 'Start on HTTP request' },
   // Actions
   { value: 'jupiter_swap', label: 'Jupiter Swap', category: 'action', description: 'Swap tokens' },
   { value: 'raydium_swap', label: 'Raydium Swap', category: 'action', description: 'Swap on Raydium' },
@@ -38,6 +39,7 @@ const nodeOptions: { value: string; label: string; category: NodeCategory; descr
   { value: 'transform', label: 'Transform', category: 'logic', description: 'Modify data' },
   { value: 'cooldown', label: 'Cooldown', category: 'logic', description: 'Rate limiting' },
   { value: 'retry', label: 'Retry', category: 'logic', description: 'Retry on failure' },
+  { value: 'call_workflow', label: 'Call Workflow', category: 'logic', description: 'Run another workflow' },
   { value: 'split_order', label: 'Split Order', category: 'logic', description: 'DCA split' },
   { value: 'balance_threshold_trigger', label: 'Balance Threshold', category: 'logic', description: 'Trigger on balance' },
   { value: 'rug_check', label: 'Rug Check', category: 'logic', description: 'Safety check' },
@@ -0,0 +1,176 @@
+import { useMemo, useState } from 'react'
+import { isTemplateString } from '../lib/nodeDocumentation'
+import { getAddressError, shortenAddress } from '../lib/solana'
+import { KNOWN_TOKENS, findToken, searchTokens } from '../lib/tokens'
+
+type AddressKind = 'mint' | 'wallet'
+
+type Props = {
+  value: string
+  onChange: (value: string) => void
+  kind: AddressKind
+  // one address per line
+  multiline?: boolean
+  disabled?: boolean
+  placeholder?: string
+}
+
+const inputStyle = {
+  padding: '6px 8px',
+  borderRadius: 6,
+  border: '1px solid var(--color-border)',
+  fontFamily: 'monospace',
+  width: '100%',
+  boxSizing: 'border-box' as const,
+}
+const summaryStyle = { fontSize: 11, color: 'var(--color-text-subtle)' }
+
+// One-line description under an address: token details, or why it isn't valid
+export function AddressSummary({ value, kind, multiline }: { value: string; kind: AddressKind; multiline?: boolean }) {
+  const v = value.trim()
+  if (!v || isTemplateString(v)) return null
+
+  if (multiline) {
+    const lines = v.split(/[\s,]+/).filter(Boolean)
+    const bad = lines.filter((line) => getAddressError(line))
+    return (
+      <div style={summaryStyle}>
+        {lines.length} address{lines.length === 1 ? '' : 'es'}
+        {bad.length ? (
+          <span style={{ color: 'var(--color-error)' }}>
+            {' '}
+            · invalid: {bad.map((a) => shortenAddress(a, 6)).join(', ')}
+          </span>
+        ) : null}
+      </div>
+    )
+  }
+
+  const error = getAddressError(v)
+  if (error) return <div style={{ ...summaryStyle, color: 'var(--color-error)' }}>{error}</div>
+
+  const token = kind === 'mint' ? findToken(v) : undefined
+  return (
+    <div style={summaryStyle} title={v}>
+      {token ? (
+        <>
+          <span style={{ color: 'var(--color-text)', fontWeight: 600 }}>{token.symbol}</span> · {token.decimals} decimals ·{' '}
+        </>
+      ) : kind === 'mint' ? (
+        'unknown token · '
+      ) : null}
+      <span style={{ fontFamily: 'monospace' }}>{shortenAddress(v)}</span>
+    </div>
+  )
+}
+
+// Compact known-token picker for fields that have their own input (e.g. output selectors)
+export function TokenSelect({ onPick, disabled }: { onPick: (mint: string) => void; disabled?: boolean }) {
+  return (
+    <select
+      value=""
+      onChange={(e) => e.target.value && onPick(e.target.value)}
+      disabled={disabled}
+      style={{ padding: '4px 6px', borderRadius: 6, border: '1px solid var(--color-border)', fontSize: 12 }}
+    >
+      <option value="">or pick a known token...</option>
+      {KNOWN_TOKENS.map((t) => (
+        <option key={t.mint} value={t.mint}>
+          {t.symbol} · {t.name}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+// Text input for Solana addresses. Mint inputs also search the bundled token list
+// by symbol or name while the text isn't already an address.
+export default function AddressInput({ value, onChange, kind, multiline, disabled, placeholder }: Props) {
+  const [focused, setFocused] = useState(false)
+
+  const matches = useMemo(() => {
+    if (kind !== 'mint' || multiline || isTemplateString(value)) return []
+    if (value && !getAddressError(value)) return []
+    return searchTokens(value)
+  }, [kind, multiline, value])
+
+  if (multiline) {
+    return (
+      <div style={{ display: 'grid', gap: 4 }}>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          rows={3}
+          spellCheck={false}
+          style={{ ...inputStyle, fontSize: 11 }}
+          placeholder={placeholder}
+        />
+        <AddressSummary value={value} kind={kind} multiline />
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 4, position: 'relative' }}>
+      <input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onFocus={() => setFocused(true)}
+        onBlur={() => setFocused(false)}
+        disabled={disabled}
+        spellCheck={false}
+        style={inputStyle}
+        placeholder={placeholder ?? (kind === 'mint' ? 'mint address or token symbol' : 'wallet address')}
+      />
+      {focused && matches.length > 0 ? (
+        <div
+          style={{
+            position: 'absolute',
+            top: 34,
+            left: 0,
+            right: 0,
+            zIndex: 20,
+            background: 'var(--color-bg)',
+            border: '1px solid var(--color-border)',
+            borderRadius: 6,
+            boxShadow: 'var(--shadow-sm)',
+            maxHeight: 220,
+            overflow: 'auto',
+          }}
+        >
+          {matches.map((t) => (
+            <button
+              key={t.mint}
+              type="button"
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault()
+                onChange(t.mint)
+                setFocused(false)
+              }}
+              style={{
+                display: 'flex',
+                gap: 8,
+                width: '100%',
+                alignItems: 'baseline',
+                textAlign: 'left',
+                padding: '6px 8px',
+                background: 'none',
+                border: 'none',
+                cursor: 'pointer',
+                fontSize: 12,
+                color: 'var(--color-text)',
+              }}
+            >
+              <span style={{ fontWeight: 600, minWidth: 56 }}>{t.symbol}</span>
+              <span style={{ color: 'var(--color-text-muted)', flex: 1 }}>{t.name}</span>
+              <span style={{ fontFamily: 'monospace', fontSize: 11, color: 'var(--color-text-subtle)' }}>{shortenAddress(t.mint)}</span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+      <AddressSummary value={value} kind={kind} />
+    </div>
+  )
+}
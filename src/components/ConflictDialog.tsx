@@ -0,0 +1,158 @@
+import { useMemo, useState } from 'react'
+import {
+  buildNodeConflicts,
+  formatDiffValue,
+  getDiffStatusColor,
+  mergeDefinitions,
+  type Definition,
+  type FieldChange,
+  type MergeSide,
+  type NodeChangeStatus,
+} from '../lib/graphDiff'
+
+type Props = {
+  base: Definition
+  mine: Definition
+  theirs: Definition
+  theirsUpdatedAt: string
+  busy?: boolean
+  onSave: (merged: Definition) => void
+  onCancel: () => void
+}
+
+function ChangeList({ status, changes }: { status: NodeChangeStatus; changes: FieldChange[] }) {
+  return (
+    <div style={{ display: 'grid', gap: 2 }}>
+      <span style={{ color: getDiffStatusColor(status) }}>{status}</span>
+      {status === 'changed'
+        ? changes.map((c) => (
+            <span key={c.field} style={{ color: 'var(--color-text-muted)', fontFamily: 'monospace', fontSize: 11 }}>
+              {c.field}: {formatDiffValue(c.before)} → {formatDiffValue(c.after)}
+            </span>
+          ))
+        : null}
+    </div>
+  )
+}
+
+// Node-level diff of my draft vs the copy someone else saved, with a per-node pick.
+export default function ConflictDialog({ base, mine, theirs, theirsUpdatedAt, busy, onSave, onCancel }: Props) {
+  const conflicts = useMemo(() => buildNodeConflicts(base, mine, theirs), [base, mine, theirs])
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({})
+
+  const choiceFor = (id: string, fallback: MergeSide) => choices[id] ?? fallback
+  const setAll = (side: MergeSide) => setChoices(Object.fromEntries(conflicts.map((c) => [c.id, side])))
+  const conflictingCount = conflicts.filter((c) => c.conflicting).length
+
+  const cellStyle = { padding: '8px 10px', borderTop: '1px solid var(--color-border)', verticalAlign: 'top' as const }
+  const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '6px 10px', borderRadius: 8, fontSize: 12 }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: 24,
+      }}
+    >
+      <div
+        className="card"
+        style={{ width: '100%', maxWidth: 860, maxHeight: '85vh', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}
+      >
+        <div style={{ padding: '16px 20px', borderBottom: '1px solid var(--color-border)', display: 'grid', gap: 4 }}>
+          <div style={{ fontSize: 15, fontWeight: 600 }}>workflow changed while you were editing</div>
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+            someone saved this workflow at {new Date(theirsUpdatedAt).toLocaleString()}. {conflicts.length} node
+            {conflicts.length === 1 ? '' : 's'} differ
+            {conflictingCount ? `, ${conflictingCount} changed on both sides` : ''}. pick which version of each node to keep.
+          </div>
+        </div>
+
+        <div style={{ overflow: 'auto', flex: 1 }}>
+          {conflicts.length === 0 ? (
+            <div style={{ padding: 20, fontSize: 12, color: 'var(--color-text-muted)' }}>
+              nodes are identical; only connections differ and will be merged.
+            </div>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+              <thead>
+                <tr style={{ textAlign: 'left', color: 'var(--color-text-muted)' }}>
+                  <th style={{ padding: '8px 10px' }}>node</th>
+                  <th style={{ padding: '8px 10px' }}>mine</th>
+                  <th style={{ padding: '8px 10px' }}>theirs</th>
+                  <th style={{ padding: '8px 10px' }}>keep</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflicts.map((c) => {
+                  const choice = choiceFor(c.id, c.defaultChoice)
+                  return (
+                    <tr key={c.id} style={c.conflicting ? { background: 'var(--color-warning-bg)' } : undefined}>
+                      <td style={cellStyle}>
+                        <div style={{ fontWeight: 500 }}>{c.id}</div>
+                        <div style={{ color: 'var(--color-text-muted)' }}>{c.type}</div>
+                      </td>
+                      <td style={cellStyle}>
+                        <ChangeList status={c.mineStatus} changes={c.mineChanges} />
+                      </td>
+                      <td style={cellStyle}>
+                        <ChangeList status={c.theirsStatus} changes={c.theirsChanges} />
+                      </td>
+                      <td style={{ ...cellStyle, whiteSpace: 'nowrap' }}>
+                        {(['mine', 'theirs'] as const).map((side) => (
+                          <label key={side} style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+                            <input
+                              type="radio"
+                              name={`merge-${c.id}`}
+                              checked={choice === side}
+                              onChange={() => setChoices((prev) => ({ ...prev, [c.id]: side }))}
+                            />
+                            {side}
+                          </label>
+                        ))}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid var(--color-border)',
+            display: 'flex',
+            gap: 8,
+            alignItems: 'center',
+          }}
+        >
+          <button type="button" onClick={() => setAll('mine')} disabled={busy} style={buttonStyle}>
+            all mine
+          </button>
+          <button type="button" onClick={() => setAll('theirs')} disabled={busy} style={buttonStyle}>
+            all theirs
+          </button>
+          <div style={{ flex: 1 }} />
+          <button type="button" onClick={onCancel} disabled={busy} style={buttonStyle}>
+            cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(mergeDefinitions(base, mine, theirs, choices))}
+            disabled={busy}
+            style={{ background: 'var(--color-text)', color: 'var(--color-bg)', border: '1px solid var(--color-text)', padding: '6px 12px', borderRadius: 8, fontSize: 12 }}
+          >
+            {busy ? '...' : 'save merged'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -16,11 +16,17 @@ import {
   type OnEdgesChange,
   type OnConnect,
   type OnReconnect,
+  type ReactFlowInstance,
 } from '@xyflow/react'
 import '@xyflow/react/dist/style.css'
 import AddNodeEdge from './AddNodeEdge'
 import AddNodeAfterLast from './AddNodeAfterLast'
 import CustomNode from './CustomNode'
+import { findCyclePath, getMainFlowTerminal, getOpenSlots, isTriggerNode, type OpenSlot } from '../lib/graph'
+import { applyLayout, layoutGraph } from '../lib/layout'
+import { getNodeBranches } from '../lib/nodeDocumentation'
+import type { NodeRunSummary } from '../lib/executionOverlay'
+import type { NodeIssueSummary } from '../lib/validator'
 
 const edgeTypes = {
   addNode: AddNodeEdge,
@@ -34,22 +40,40 @@ const defaultNodes: Node[] = []
 
 const defaultEdges: Edge[] = []
 
+const HISTORY_LIMIT = 100
+// consecutive edits to the same node fields within this window collapse into one undo step
+const HISTORY_COALESCE_MS = 1000
+
+type Snapshot = { nodes: Node[]; edges: Edge[] }
+
+export type HistoryState = { canUndo: boolean; canRedo: boolean }
+
 type Props = {
   initialNodes?: Node[]
   initialEdges?: Edge[]
   onDefinitionChange?: (definition: { nodes: Node[]; edges: Edge[] }) => void
   onNodeSelect?: (nodeId: string | undefined) => void
   onAddNodeOnEdge?: (edgeId: string, nodeType: string, sourceId: string, targetId: string) => void
-  onAddNodeAfterLast?: (nodeType: string, fromNodeId: string) => void
+  onAddNodeAfterLast?: (nodeType: string, fromNodeId: string, sourceHandle?: string) => void
   onDeleteNode?: (nodeId: string) => void
+  onHistoryChange?: (state: HistoryState) => void
+  // re-run the layered layout after every node insertion
+  autoLayout?: boolean
   containerStyle?: CSSProperties
   readOnly?: boolean
   syncFromProps?: boolean
+  // validation results keyed by node id, shown as badges
+  nodeIssues?: Record<string, NodeIssueSummary>
+  // per-node execution results (status colour, duration, error); read-only views only
+  nodeRuns?: Record<string, NodeRunSummary>
+  // a drawn connection was refused (e.g. it would loop); reason is user-facing
+  onConnectRejected?: (reason: string) => void
 }
 
 // Wrapper component to use hooks inside ReactFlow
-function AddNodeButton({ nodeId, onAddNode, onPopupOpen, onPopupClose }: { 
+function AddNodeButton({ nodeId, sourceHandle, onAddNode, onPopupOpen, onPopupClose }: { 
   nodeId: string
+  sourceHandle?: string
   onAddNode: (nodeType: string) => void
   onPopupOpen: () => void
   onPopupClose: () => void 
@@ -61,11 +85,16 @@ function AddNodeButton({ nodeId, onAddNode, onPopupOpen, onPopupClose }: {
 
   const width = node.measured?.width ?? (node as any).width ?? 150
   const height = node.measured?.height ?? (node as any).height ?? 50
+
+  // Branch buttons sit under their handle (see CustomNode)
+  const branches = getNodeBranches(String((node.data as any)?.type ?? ''))
+  const branchIndex = branches.findIndex((b) => b.id === sourceHandle)
+  const anchorX = branchIndex === -1 ? width / 2 : (width * (branchIndex + 1)) / (branches.length + 1)
   
   return (
     <AddNodeAfterLast
       position={{ 
-        x: node.position.x + width / 2,
+        x: node.position.x + anchorX,
         y: node.position.y + height - 2
       }}
       onAddNode={onAddNode}
@@ -82,26 +111,148 @@ export type CreateWorkFlowHandle = {
   deleteNode: (nodeId: string) => void
   insertNodeOnEdge: (edgeId: string, node: Node) => void
   shiftNodesDown: (startNodeId: string, amount: number) => void
+  pasteNodes: (nodes: Node[], edges: Edge[]) => void
+  // swaps the whole graph as one undoable step (used by import)
+  replaceGraph: (nodes: Node[], edges: Edge[]) => void
+  tidyUp: () => void
+  // selects the node and pans it into view
+  focusNode: (nodeId: string) => void
+  undo: () => void
+  redo: () => void
 }
 
 const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
-  ({ initialNodes, initialEdges, onDefinitionChange, onNodeSelect, onAddNodeOnEdge, onAddNodeAfterLast, onDeleteNode, containerStyle, readOnly, syncFromProps }, ref) => {
+  ({ initialNodes, initialEdges, onDefinitionChange, onNodeSelect, onAddNodeOnEdge, onAddNodeAfterLast, onDeleteNode, onHistoryChange, autoLayout, containerStyle, readOnly, syncFromProps, nodeIssues, nodeRuns, onConnectRejected }, ref) => {
   const [nodes, setNodes] = useState<Node[]>(initialNodes ?? defaultNodes)
   const [edges, setEdges] = useState<Edge[]>(initialEdges ?? defaultEdges)
   const [popupOpen, setPopupOpen] = useState(false)
+  const flowInstanceRef = useRef<ReactFlowInstance | null>(null)
+
+  // Undo/redo history. Snapshots are taken from the last rendered state, so
+  // several mutations issued in the same tick (e.g. addNode + addEdge) share
+  // one entry.
+  const nodesRef = useRef(nodes)
+  const edgesRef = useRef(edges)
+  nodesRef.current = nodes
+  edgesRef.current = edges
+  const pastRef = useRef<Snapshot[]>([])
+  const futureRef = useRef<Snapshot[]>([])
+  const recordPendingRef = useRef(false)
+  const lastRecordRef = useRef<{ key: string; at: number } | undefined>(undefined)
+  const [historyState, setHistoryState] = useState<HistoryState>({ canUndo: false, canRedo: false })
+
+  const syncHistoryState = useCallback(() => {
+    setHistoryState({ canUndo: pastRef.current.length > 0, canRedo: futureRef.current.length > 0 })
+  }, [])
+
+  const recordHistory = useCallback(
+    (coalesceKey?: string) => {
+      const now = Date.now()
+      const last = lastRecordRef.current
+      lastRecordRef.current = coalesceKey ? { key: coalesceKey, at: now } : undefined
+      if (coalesceKey && last && last.key === coalesceKey && now - last.at < HISTORY_COALESCE_MS) return
+      if (recordPendingRef.current) return
+
+      recordPendingRef.current = true
+      queueMicrotask(() => {
+        recordPendingRef.current = false
+      })
+
+      pastRef.current = [...pastRef.current, { nodes: nodesRef.current, edges: edgesRef.current }].slice(-HISTORY_LIMIT)
+      futureRef.current = []
+      syncHistoryState()
+    },
+    [syncHistoryState],
+  )
+
+  const resetHistory = useCallback(() => {
+    pastRef.current = []
+    futureRef.current = []
+    lastRecordRef.current = undefined
+    syncHistoryState()
+  }, [syncHistoryState])
+
+  const undo = useCallback(() => {
+    const previous = pastRef.current[pastRef.current.length - 1]
+    if (!previous) return
+    pastRef.current = pastRef.current.slice(0, -1)
+    futureRef.current = [...futureRef.current, { nodes: nodesRef.current, edges: edgesRef.current }]
+    lastRecordRef.current = undefined
+    setNodes(previous.nodes)
+    setEdges(previous.edges)
+    syncHistoryState()
+  }, [syncHistoryState])
+
+  const redo = useCallback(() => {
+    const next = futureRef.current[futureRef.current.length - 1]
+    if (!next) return
+    futureRef.current = futureRef.current.slice(0, -1)
+    pastRef.current = [...pastRef.current, { nodes: nodesRef.current, edges: edgesRef.current }]
+    lastRecordRef.current = undefined
+    setNodes(next.nodes)
+    setEdges(next.edges)
+    syncHistoryState()
+  }, [syncHistoryState])
+
+  useEffect(() => {
+    onHistoryChange?.(historyState)
+  }, [historyState, onHistoryChange])
+
+  // Insertions flag a layout pass that runs once the new nodes/edges are committed,
+  // so it sees both; it is part of the insertion's undo step rather than its own.
+  const layoutPendingRef = useRef(false)
+  const requestAutoLayout = useCallback(() => {
+    if (autoLayout) layoutPendingRef.current = true
+  }, [autoLayout])
+
+  useEffect(() => {
+    if (!layoutPendingRef.current) return
+    layoutPendingRef.current = false
+    setNodes((prev) => applyLayout(prev, layoutGraph(prev, edges)))
+  }, [nodes, edges])
+
+  useEffect(() => {
+    if (readOnly) return
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      const target = e.target as HTMLElement | null
+      // leave native text undo alone inside form fields
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [readOnly, undo, redo])
 
   // Add custom node type with delete handler to all nodes
   const nodesWithHandlers = useMemo(() => {
-    if (readOnly) return nodes
+    if (readOnly) {
+      if (nodeRuns) {
+        return nodes.map((node) => ({ ...node, type: 'custom', data: { ...node.data, run: nodeRuns[node.id] } }))
+      }
+      // branch nodes need their named source handles or their edges can't render
+      return nodes.map((node) =>
+        getNodeBranches(String((node.data as any)?.type ?? '')).length > 0 ? { ...node, type: 'custom' } : node,
+      )
+    }
     return nodes.map((node) => ({
       ...node,
       type: 'custom',
       data: {
         ...node.data,
         onDelete: onDeleteNode,
+        issues: nodeIssues?.[node.id],
       },
     }))
-  }, [nodes, onDeleteNode, readOnly])
+  }, [nodes, onDeleteNode, readOnly, nodeIssues, nodeRuns])
 
   // Add edge data with onAddNode handler for plus icon on edges
   const edgesWithHandlers = useMemo(() => {
@@ -118,49 +269,16 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
     }))
   }, [edges, onAddNodeOnEdge, readOnly])
 
-  // Find terminal nodes (nodes with no outgoing edges)
-  const terminalNodes = useMemo(() => {
+  // Where to show "add node" buttons: the end of the main flow plus every open branch
+  const addSlots = useMemo((): OpenSlot[] => {
     if (readOnly || nodes.length === 0) return []
-    const isTriggerNode = (n: Node) => {
-      const kind = String((n.data as any)?.type ?? '')
-      return kind.endsWith('_trigger')
+    const main = getMainFlowTerminal(nodes, edges)
+    const branchSlots = getOpenSlots(nodes, edges).filter((s) => s.sourceHandle !== undefined)
+    const slots = main ? [main] : []
+    for (const s of branchSlots) {
+      if (!slots.some((x) => x.nodeId === s.nodeId && x.sourceHandle === s.sourceHandle)) slots.push(s)
     }
-
-    const trigger = nodes.find(isTriggerNode)
-    const reachable = new Set<string>()
-
-    if (trigger) {
-      const queue: string[] = [trigger.id]
-      reachable.add(trigger.id)
-      while (queue.length) {
-        const current = queue.shift()!
-        for (const e of edges) {
-          if (e.source !== current) continue
-          if (!reachable.has(e.target)) {
-            reachable.add(e.target)
-            queue.push(e.target)
-          }
-        }
-      }
-    } else {
-      for (const n of nodes) reachable.add(n.id)
-    }
-
-    const nodesWithOutgoing = new Set(
-      edges.filter((e) => reachable.has(e.source) && reachable.has(e.target)).map((e) => e.source),
-    )
-
-    const terms = nodes.filter((n) => reachable.has(n.id) && !nodesWithOutgoing.has(n.id))
-
-    // Stable ordering: pick deepest terminal as the last
-    return terms.sort((a, b) => {
-      const ay = (a.position as any)?.y ?? 0
-      const by = (b.position as any)?.y ?? 0
-      if (ay !== by) return ay - by
-      const ax = (a.position as any)?.x ?? 0
-      const bx = (b.position as any)?.x ?? 0
-      return ax - bx
-    })
+    return slots
   }, [nodes, edges, readOnly])
 
   const didHydrateRef = useRef(false)
@@ -177,8 +295,9 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
 
     setNodes(initialNodes ?? defaultNodes)
     setEdges(initialEdges ?? defaultEdges)
+    resetHistory()
     didHydrateRef.current = true
-  }, [initialNodes, initialEdges, syncFromProps])
+  }, [initialNodes, initialEdges, syncFromProps, resetHistory])
 
   useEffect(() => {
     onDefinitionChange?.({ nodes, edges })
@@ -188,32 +307,41 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
     ref,
     () => ({
       patchNodeData: (nodeId: string, patch: Record<string, unknown>) => {
+        recordHistory(`patch:${nodeId}:${Object.keys(patch).sort().join(',')}`)
         setNodes((prev) =>
           prev.map((n) => (n.id === nodeId ? { ...n, data: { ...(n.data as any), ...patch } } : n)),
         )
       },
       addNode: (node: Node) => {
+        recordHistory()
+        requestAutoLayout()
         setNodes((prev) => [...prev, node])
       },
       addEdge: (edge: Edge) => {
+        recordHistory()
         setEdges((prev) => {
-          const exists = prev.some((e) => e.source === edge.source && e.target === edge.target)
+          const exists = prev.some(
+            (e) => e.source === edge.source && e.target === edge.target && (e.sourceHandle ?? null) === (edge.sourceHandle ?? null),
+          )
           if (exists) return prev
           return [...prev, edge]
         })
       },
       deleteNode: (nodeId: string) => {
+        recordHistory()
         setNodes((prev) => prev.filter((n) => n.id !== nodeId))
         setEdges((prev) => prev.filter((e) => e.source !== nodeId && e.target !== nodeId))
       },
       insertNodeOnEdge: (edgeId: string, node: Node) => {
+        recordHistory()
+        requestAutoLayout()
         setEdges((prev) => {
           const edge = prev.find((e) => e.id === edgeId)
           if (!edge) return prev
           // Remove old edge, add two new edges
           const newEdges = prev.filter((e) => e.id !== edgeId)
           newEdges.push(
-            { id: `e-${edge.source}-${node.id}`, source: edge.source, target: node.id },
+            { id: `e-${edge.source}-${node.id}`, source: edge.source, target: node.id, sourceHandle: edge.sourceHandle },
             { id: `e-${node.id}-${edge.target}`, source: node.id, target: edge.target }
           )
           return newEdges
@@ -221,6 +349,7 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
         setNodes((prev) => [...prev, node])
       },
       shiftNodesDown: (startNodeId: string, amount: number) => {
+        recordHistory()
         setNodes((prev) => {
           const startNode = prev.find((n) => n.id === startNodeId)
           if (!startNode) return prev
@@ -233,34 +362,106 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
           )
         })
       },
+      pasteNodes: (pasted: Node[], pastedEdges: Edge[]) => {
+        recordHistory()
+        requestAutoLayout()
+        // pasted nodes become the new selection
+        setNodes((prev) => [...prev.map((n) => (n.selected ? { ...n, selected: false } : n)), ...pasted])
+        setEdges((prev) => [...prev.map((e) => (e.selected ? { ...e, selected: false } : e)), ...pastedEdges])
+      },
+      replaceGraph: (nextNodes: Node[], nextEdges: Edge[]) => {
+        recordHistory()
+        setNodes(nextNodes)
+        setEdges(nextEdges)
+      },
+      tidyUp: () => {
+        recordHistory()
+        setNodes((prev) => applyLayout(prev, layoutGraph(prev, edgesRef.current)))
+      },
+      focusNode: (nodeId: string) => {
+        const node = nodesRef.current.find((n) => n.id === nodeId)
+        if (!node) return
+        setNodes((prev) => prev.map((n) => (n.selected === (n.id === nodeId) ? n : { ...n, selected: n.id === nodeId })))
+        const instance = flowInstanceRef.current
+        if (!instance) return
+        const width = node.measured?.width ?? 150
+        const height = node.measured?.height ?? 50
+        instance.setCenter(node.position.x + width / 2, node.position.y + height / 2, {
+          zoom: Math.max(instance.getZoom(), 1),
+          duration: 300,
+        })
+      },
+      undo,
+      redo,
     }),
-    [],
+    [recordHistory, requestAutoLayout, undo, redo],
   )
 
+  // Selection and measurement changes are not user edits and stay out of history.
+  // Drags are recorded once at drag start (see onNodeDragStart).
   const onNodesChange: OnNodesChange = useCallback(
-    (changes) => setNodes((nodesSnapshot) => applyNodeChanges(changes, nodesSnapshot)),
-    [],
+    (changes) => {
+      if (changes.some((c) => c.type === 'remove' || c.type === 'add' || c.type === 'replace')) recordHistory()
+      setNodes((nodesSnapshot) => applyNodeChanges(changes, nodesSnapshot))
+    },
+    [recordHistory],
   )
 
   const onEdgesChange: OnEdgesChange = useCallback(
-    (changes) => setEdges((edgesSnapshot) => applyEdgeChanges(changes, edgesSnapshot)),
-    [],
+    (changes) => {
+      if (changes.some((c) => c.type === 'remove' || c.type === 'add' || c.type === 'replace')) recordHistory()
+      setEdges((edgesSnapshot) => applyEdgeChanges(changes, edgesSnapshot))
+    },
+    [recordHistory],
+  )
+
+  const onNodeDragStart = useCallback(() => recordHistory(), [recordHistory])
+
+  // Triggers are entry points, and workflows run top to bottom without loops
+  const rejectConnection = useCallback(
+    (source: string, target: string, edgesSnapshot: Edge[]): boolean => {
+      const targetNode = nodesRef.current.find((n) => n.id === target)
+      if (targetNode && isTriggerNode(targetNode)) {
+        onConnectRejected?.(`${target} is a trigger; triggers start the flow and cannot have incoming connections`)
+        return true
+      }
+      const path = findCyclePath(source, target, edgesSnapshot)
+      if (!path) return false
+      onConnectRejected?.(
+        `connecting ${source} → ${target} would create a loop (${path.join(' → ')}). ` +
+          'workflows run top to bottom; use a retry node to repeat a step.',
+      )
+      return true
+    },
+    [onConnectRejected],
   )
 
   const onConnect: OnConnect = useCallback(
-    (params) =>
+    (params) => {
+      const current = edgesRef.current
+      const toggling = current.some(
+        (e) =>
+          e.source === params.source &&
+          e.target === params.target &&
+          (e.sourceHandle ?? null) === (params.sourceHandle ?? null),
+      )
+      if (!toggling && params.source && params.target && rejectConnection(params.source, params.target, current)) return
+      recordHistory()
       setEdges((edgesSnapshot) => {
         if (!params.source || !params.target) return edgesSnapshot
         const existing = edgesSnapshot.find(
           (e) =>
-            e.source === params.source && e.target === params.target,
+            e.source === params.source &&
+            e.target === params.target &&
+            (e.sourceHandle ?? null) === (params.sourceHandle ?? null),
         )
         if (existing) {
           return edgesSnapshot.filter((e) => e.id !== existing.id)
         }
         return addEdge(params, edgesSnapshot)
-      }),
-    [],
+      })
+    },
+    [recordHistory, rejectConnection],
   )
 
   // Track if edge reconnection was successful
@@ -274,13 +475,22 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
   // Handle edge reconnection (drag edge to new target)
   const onReconnect: OnReconnect = useCallback(
     (oldEdge, newConnection) => {
+      const others = edgesRef.current.filter((e) => e.id !== oldEdge.id)
+      if (rejectConnection(newConnection.source ?? oldEdge.source, newConnection.target ?? oldEdge.target, others)) {
+        // keep the old edge rather than letting onReconnectEnd drop it
+        edgeReconnectSuccessful.current = true
+        return
+      }
+      recordHistory()
       setEdges((edgesSnapshot) => {
         const source = newConnection.source ?? oldEdge.source
         const target = newConnection.target ?? oldEdge.target
+        const sourceHandle = newConnection.sourceHandle ?? oldEdge.sourceHandle ?? null
         const existing = edgesSnapshot.find(
           (e) =>
             e.id !== oldEdge.id &&
-            e.source === source && e.target === target,
+            e.source === source && e.target === target &&
+            (e.sourceHandle ?? null) === sourceHandle,
         )
 
         if (existing) {
@@ -292,7 +502,7 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
         return reconnectEdge(oldEdge, newConnection, edgesSnapshot)
       })
     },
-    [],
+    [recordHistory, rejectConnection],
   )
 
   // Handle edge reconnection end - if dropped on empty space (not reconnected), delete the edge
@@ -300,11 +510,12 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
     (_event: MouseEvent | TouchEvent, edge: Edge) => {
       // Only delete if reconnection was not successful (dropped on empty space)
       if (!edgeReconnectSuccessful.current) {
+        recordHistory()
         setEdges((edgesSnapshot) => edgesSnapshot.filter((e) => e.id !== edge.id))
       }
       edgeReconnectSuccessful.current = true
     },
-    [],
+    [recordHistory],
   )
 
   return (
@@ -314,7 +525,11 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
         edges={edgesWithHandlers}
         nodeTypes={nodeTypes}
         edgeTypes={edgeTypes}
+        onInit={(instance) => {
+          flowInstanceRef.current = instance
+        }}
         onNodesChange={readOnly ? undefined : onNodesChange}
+        onNodeDragStart={readOnly ? undefined : onNodeDragStart}
         onEdgesChange={readOnly ? undefined : onEdgesChange}
         onConnect={readOnly ? undefined : onConnect}
         nodesDraggable={!readOnly}
@@ -344,19 +559,22 @@ const CreateWorkFlow = forwardRef<CreateWorkFlowHandle, Props>(
       >
         <Background color="#d1d5db" gap={20} />
         <Controls showInteractive={false} position="bottom-left" />
-        {/* Plus icon after terminal nodes - only show for the last one */}
-        {terminalNodes.length > 0 && (
+        {/* Plus icon after the last node of the main flow and under each open branch */}
+        {addSlots.length > 0 && (
           <ViewportPortal>
-            <AddNodeButton
-              key={`add-after-${terminalNodes[terminalNodes.length - 1].id}`}
-              nodeId={terminalNodes[terminalNodes.length - 1].id}
-              onAddNode={(nodeType) => {
-                setPopupOpen(false)
-                onAddNodeAfterLast?.(nodeType, terminalNodes[terminalNodes.length - 1].id)
-              }}
-              onPopupOpen={() => setPopupOpen(true)}
-              onPopupClose={() => setPopupOpen(false)}
-            />
+            {addSlots.map((slot) => (
+              <AddNodeButton
+                key={`add-after-${slot.nodeId}-${slot.sourceHandle ?? ''}`}
+                nodeId={slot.nodeId}
+                sourceHandle={slot.sourceHandle}
+                onAddNode={(nodeType) => {
+                  setPopupOpen(false)
+                  onAddNodeAfterLast?.(nodeType, slot.nodeId, slot.sourceHandle)
+                }}
+                onPopupOpen={() => setPopupOpen(true)}
+                onPopupClose={() => setPopupOpen(false)}
+              />
+            ))}
           </ViewportPortal>
         )}
       </ReactFlow>
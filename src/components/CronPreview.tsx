@@ -0,0 +1,42 @@
+import { useMemo } from 'react'
+import { describeCron, formatInTimeZone, getCronError, getLocalTimeZone, isValidTimeZone, nextFireTimes } from '../lib/cron'
+
+type Props = {
+  cron: string
+  timezone: string
+}
+
+// Plain-English reading of a timer_trigger cron plus its next fire times, shown in
+// the trigger's own zone and, when different, the browser's.
+export default function CronPreview({ cron, timezone }: Props) {
+  const preview = useMemo(() => {
+    if (!cron.trim() || getCronError(cron) || !isValidTimeZone(timezone)) return undefined
+    return { summary: describeCron(cron), times: nextFireTimes(cron, timezone, 5) }
+  }, [cron, timezone])
+
+  if (!preview) return null
+  const local = getLocalTimeZone()
+
+  return (
+    <div style={{ fontSize: 12, background: 'var(--color-bg)', padding: 8, borderRadius: 6, display: 'grid', gap: 4 }}>
+      <div>
+        runs {preview.summary} ({timezone})
+      </div>
+      {preview.times.length === 0 ? (
+        <div style={{ color: 'var(--color-warning)' }}>no upcoming runs</div>
+      ) : (
+        <>
+          <div style={{ color: 'var(--color-text-muted)' }}>next {preview.times.length} runs</div>
+          {preview.times.map((t) => (
+            <div key={t.getTime()} style={{ fontFamily: 'monospace', fontSize: 11 }}>
+              {formatInTimeZone(t, timezone)}
+              {local !== timezone ? (
+                <span style={{ color: 'var(--color-text-subtle)' }}> · {formatInTimeZone(t, local)} local</span>
+              ) : null}
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  )
+}
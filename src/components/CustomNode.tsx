@@ -1,5 +1,8 @@
 import { memo } from 'react'
 import { Handle, Position } from '@xyflow/react'
+import { formatDurationMs, getStatusBg, getStatusColor, type NodeRunSummary } from '../lib/executionOverlay'
+import { getNodeBranches } from '../lib/nodeDocumentation'
+import type { NodeIssueSummary } from '../lib/validator'
 
 type CustomNodeProps = {
   id: string
@@ -7,11 +10,29 @@ type CustomNodeProps = {
     label: string
     type?: string
     onDelete?: (nodeId: string) => void
+    issues?: NodeIssueSummary
+    // set when the graph shows an execution
+    run?: NodeRunSummary
   }
   selected?: boolean
 }
 
+function branchColor(branchId: string) {
+  if (branchId === 'true') return 'var(--color-success)'
+  if (branchId === 'false') return 'var(--color-error)'
+  return 'var(--color-text-muted)'
+}
+
 function CustomNode({ id, data, selected }: CustomNodeProps) {
+  const branches = getNodeBranches(data.type ?? '')
+  const issues = data.issues
+  const issueCount = issues ? issues.errors + issues.warnings : 0
+  const run = data.run
+  const runTitle = run
+    ? [run.status, run.durationMs !== undefined ? formatDurationMs(run.durationMs) : undefined].filter(Boolean).join(' · ') +
+      (run.error ? `\n${run.error}` : '')
+    : undefined
+
   return (
     <>
       {/* Node handles */}
@@ -19,11 +40,16 @@ function CustomNode({ id, data, selected }: CustomNodeProps) {
       
       {/* Node content with X button */}
       <div
+        title={runTitle}
         style={{
           position: 'relative',
           padding: '12px 20px',
-          background: 'var(--color-surface)',
-          border: selected ? '2px solid var(--color-primary)' : '1px solid var(--color-border)',
+          background: run ? getStatusBg(run.status) : 'var(--color-surface)',
+          border: selected
+            ? '2px solid var(--color-primary)'
+            : run
+              ? `2px solid ${getStatusColor(run.status)}`
+              : '1px solid var(--color-border)',
           borderRadius: 8,
           minWidth: 120,
           textAlign: 'center',
@@ -33,7 +59,7 @@ function CustomNode({ id, data, selected }: CustomNodeProps) {
         }}
       >
         {/* X button - only visible when selected */}
-        {selected && (
+        {selected && data.onDelete && (
           <button
             onClick={(e) => {
               e.stopPropagation()
@@ -63,10 +89,99 @@ function CustomNode({ id, data, selected }: CustomNodeProps) {
             ×
           </button>
         )}
+        {/* Validation badge - errors win over warnings */}
+        {issues && issueCount > 0 && (
+          <div
+            title={issueCount > 1 ? `${issues.first} (+${issueCount - 1} more)` : issues.first}
+            style={{
+              position: 'absolute',
+              top: -8,
+              left: -8,
+              minWidth: 18,
+              height: 18,
+              padding: '0 5px',
+              borderRadius: 9,
+              background: issues.errors > 0 ? 'var(--color-error)' : 'var(--color-warning)',
+              color: '#fff',
+              fontSize: 11,
+              fontWeight: 600,
+              lineHeight: '18px',
+              textAlign: 'center',
+            }}
+          >
+            {issues.errors > 0 ? issues.errors : issues.warnings}
+          </div>
+        )}
+        {/* Run duration, ticking while the node runs */}
+        {run?.durationMs !== undefined && (
+          <div
+            style={{
+              position: 'absolute',
+              top: -9,
+              right: -8,
+              height: 18,
+              padding: '0 6px',
+              borderRadius: 9,
+              background: getStatusColor(run.status),
+              color: '#fff',
+              fontSize: 10,
+              fontWeight: 600,
+              lineHeight: '18px',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {formatDurationMs(run.durationMs)}
+          </div>
+        )}
         {data.label}
+        {run?.error && (
+          <div
+            style={{
+              marginTop: 4,
+              maxWidth: 180,
+              fontSize: 10,
+              color: getStatusColor(run.status),
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {run.error}
+          </div>
+        )}
       </div>
 
-      <Handle type="source" position={Position.Bottom} />
+      {branches.length === 0 ? (
+        <Handle type="source" position={Position.Bottom} />
+      ) : (
+        branches.map((branch, i) => {
+          const left = `${((i + 1) / (branches.length + 1)) * 100}%`
+          return (
+            <div key={branch.id}>
+              <Handle
+                type="source"
+                position={Position.Bottom}
+                id={branch.id}
+                style={{ left, background: branchColor(branch.id) }}
+              />
+              <div
+                style={{
+                  position: 'absolute',
+                  top: '100%',
+                  left,
+                  transform: 'translate(8px, 2px)',
+                  fontSize: 10,
+                  fontWeight: 600,
+                  color: branchColor(branch.id),
+                  pointerEvents: 'none',
+                }}
+              >
+                {branch.label}
+              </div>
+            </div>
+          )
+        })
+      )}
     </>
   )
 }
@@ -0,0 +1,18 @@
+import type { ExecutionStatus } from '../lib/api'
+
+export default function ExecutionStatusBadge({ status }: { status: ExecutionStatus }) {
+  switch (status) {
+    case 'success':
+      return <span className="badge badge-success"><span className="status-dot status-dot-success" style={{ marginRight: 6 }} />Success</span>
+    case 'failed':
+      return <span className="badge badge-error"><span className="status-dot status-dot-error" style={{ marginRight: 6 }} />Failed</span>
+    case 'running':
+      return <span className="badge badge-primary"><span className="status-dot status-dot-running" style={{ marginRight: 6 }} />Running</span>
+    case 'queued':
+      return <span className="badge badge-warning"><span className="status-dot status-dot-warning" style={{ marginRight: 6 }} />Queued</span>
+    case 'cancelled':
+      return <span className="badge badge-neutral"><span className="status-dot status-dot-neutral" style={{ marginRight: 6 }} />Cancelled</span>
+    default:
+      return <span className="badge badge-neutral">{status}</span>
+  }
+}
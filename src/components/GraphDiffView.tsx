@@ -0,0 +1,87 @@
+import { useMemo } from 'react'
+import type { Edge, Node } from '@xyflow/react'
+import CreateWorkFlow from './CreateWorkFlow'
+import { diffDefinitions, edgeKey, formatDiffValue, getDiffStatusColor, type Definition } from '../lib/graphDiff'
+
+type Props = {
+  before: Definition
+  after: Definition
+  height?: number
+}
+
+// Read-only graph of `after` with removed nodes/edges ghosted back in, coloured by
+// change, followed by the changed fields of each node.
+export default function GraphDiffView({ before, after, height = 260 }: Props) {
+  const diff = useMemo(() => diffDefinitions(before, after), [before, after])
+
+  const nodes = useMemo((): Node[] => {
+    return diff.nodes.map((d) => {
+      const n = (d.after ?? d.before)!
+      const color = getDiffStatusColor(d.status)
+      const baseLabel = String((n.data as any)?.label ?? d.type)
+      return {
+        ...n,
+        selected: false,
+        data: { ...(n.data as any), label: d.status === 'unchanged' ? baseLabel : `${baseLabel} (${d.status})` },
+        style: {
+          ...(n.style as any),
+          border: `2px ${d.status === 'removed' ? 'dashed' : 'solid'} ${color}`,
+          opacity: d.status === 'removed' ? 0.6 : d.status === 'unchanged' ? 0.75 : 1,
+          borderRadius: 10,
+          padding: 6,
+        },
+      }
+    })
+  }, [diff])
+
+  const edges = useMemo((): Edge[] => {
+    const added = new Set(diff.addedEdges.map(edgeKey))
+    return [
+      ...after.edges.map((e) =>
+        added.has(edgeKey(e)) ? { ...e, style: { ...(e.style as any), stroke: 'var(--color-success)', strokeWidth: 2 } } : e,
+      ),
+      ...diff.removedEdges.map((e) => ({
+        ...e,
+        id: `removed:${e.id}`,
+        style: { ...(e.style as any), stroke: 'var(--color-error)', strokeDasharray: '4 4', opacity: 0.6 },
+      })),
+    ]
+  }, [diff, after.edges])
+
+  const changed = diff.nodes.filter((d) => d.status !== 'unchanged')
+  const edgeChanges = diff.addedEdges.length + diff.removedEdges.length
+
+  return (
+    <div style={{ display: 'grid', gap: 10 }}>
+      <div style={{ border: '1px solid var(--color-border)', borderRadius: 10, overflow: 'hidden' }}>
+        <CreateWorkFlow initialNodes={nodes} initialEdges={edges} readOnly syncFromProps containerStyle={{ width: '100%', height }} />
+      </div>
+
+      {changed.length === 0 && edgeChanges === 0 ? (
+        <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>no differences</div>
+      ) : (
+        <div style={{ display: 'grid', gap: 8, fontSize: 12 }}>
+          {changed.map((d) => (
+            <div key={d.id} style={{ display: 'grid', gap: 2 }}>
+              <div>
+                <span style={{ color: getDiffStatusColor(d.status) }}>{d.status}</span> {d.type} ({d.id})
+              </div>
+              {d.status === 'changed'
+                ? d.changes.map((c) => (
+                    <div key={c.field} style={{ color: 'var(--color-text-muted)', fontFamily: 'monospace', fontSize: 11, paddingLeft: 10 }}>
+                      {c.field}: {formatDiffValue(c.before)} → {formatDiffValue(c.after)}
+                    </div>
+                  ))
+                : null}
+            </div>
+          ))}
+          {edgeChanges > 0 ? (
+            <div style={{ color: 'var(--color-text-muted)' }}>
+              {diff.addedEdges.length} connection{diff.addedEdges.length === 1 ? '' : 's'} added, {diff.removedEdges.length} removed
+            </div>
+          ) : null}
+        </div>
+      )}
+    </div>
+  )
+}
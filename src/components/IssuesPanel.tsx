@@ -0,0 +1,76 @@
+import type { ValidationIssue } from '../lib/validator'
+
+type Props = {
+  issues: ValidationIssue[]
+  // called with the node an issue belongs to
+  onFocusNode: (nodeId: string) => void
+}
+
+function severityColor(issue: ValidationIssue) {
+  return issue.severity === 'error' ? 'var(--color-error)' : 'var(--color-warning)'
+}
+
+export default function IssuesPanel({ issues, onFocusNode }: Props) {
+  const errors = issues.filter((i) => i.severity === 'error').length
+  const warnings = issues.length - errors
+  const summary = [
+    errors ? `${errors} error${errors === 1 ? '' : 's'}` : '',
+    warnings ? `${warnings} warning${warnings === 1 ? '' : 's'}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 74,
+        left: 12,
+        zIndex: 10,
+        background: errors ? 'var(--color-error-bg)' : 'var(--color-warning-bg)',
+        color: errors ? 'var(--color-error)' : 'var(--color-warning)',
+        padding: '10px 12px',
+        borderRadius: 10,
+        border: `1px solid ${errors ? 'var(--color-error)' : 'var(--color-warning)'}`,
+        maxWidth: 520,
+      }}
+    >
+      <details>
+        <summary style={{ cursor: 'pointer', fontSize: 12 }}>workflow has {summary}</summary>
+        <div style={{ marginTop: 8, display: 'grid', gap: 2, maxHeight: 320, overflow: 'auto' }}>
+          {issues.map((issue) => (
+            <button
+              key={issue.key}
+              type="button"
+              disabled={!issue.nodeId}
+              onClick={() => issue.nodeId && onFocusNode(issue.nodeId)}
+              title={issue.nodeId ? 'show node' : undefined}
+              style={{
+                display: 'flex',
+                gap: 8,
+                alignItems: 'baseline',
+                textAlign: 'left',
+                background: 'none',
+                border: 'none',
+                padding: '4px 2px',
+                fontSize: 12,
+                color: 'var(--color-text)',
+                cursor: issue.nodeId ? 'pointer' : 'default',
+              }}
+            >
+              <span
+                style={{ width: 7, height: 7, borderRadius: '50%', background: severityColor(issue), flexShrink: 0 }}
+              />
+              {issue.nodeId ? (
+                <span style={{ color: 'var(--color-text-muted)', whiteSpace: 'nowrap' }}>
+                  {issue.nodeType} ({issue.nodeId})
+                </span>
+              ) : null}
+              <span>{issue.message}</span>
+            </button>
+          ))}
+        </div>
+      </details>
+    </div>
+  )
+}
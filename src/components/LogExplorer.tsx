@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { ExecutionLog } from '../lib/api'
+import { downloadLogs, filterLogs, formatLogTime, LOG_LEVELS, type LogTimeMode } from '../lib/logExplorer'
+
+type Props = {
+  executionId: string
+  logs: ExecutionLog[]
+  // relative times count from here; falls back to the first line
+  startedAt?: string
+  // node picked on the graph: scroll to its first line and outline its lines
+  highlightNodeId?: string
+  // the run is still going: keep the newest line in view while scrolled to the bottom
+  live?: boolean
+  onNodeClick?: (nodeId: string) => void
+}
+
+// Rows have a fixed height so only the visible slice is rendered; thousands of lines
+// from a long on-chain run stay smooth.
+const ROW_HEIGHT = 26
+const VIEW_HEIGHT = 360
+const OVERSCAN = 10
+
+const inputStyle = { padding: '6px 8px', borderRadius: 6, border: '1px solid var(--color-border)', fontSize: 12 }
+const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '4px 8px', borderRadius: 6, fontSize: 12 }
+
+function levelColor(level: string) {
+  if (level === 'error') return 'var(--color-error)'
+  if (level === 'warn') return 'var(--color-warning)'
+  return 'var(--color-text-muted)'
+}
+
+export default function LogExplorer({ executionId, logs, startedAt, highlightNodeId, live, onNodeClick }: Props) {
+  const [levels, setLevels] = useState<ExecutionLog['level'][]>(LOG_LEVELS)
+  const [nodeId, setNodeId] = useState<string | undefined>()
+  const [query, setQuery] = useState('')
+  const [regex, setRegex] = useState(false)
+  const [timeMode, setTimeMode] = useState<LogTimeMode>(() =>
+    window.localStorage.getItem('logTimeMode') === 'relative' ? 'relative' : 'absolute',
+  )
+  const [selected, setSelected] = useState<number | undefined>()
+  const [scrollTop, setScrollTop] = useState(0)
+
+  const listRef = useRef<HTMLDivElement>(null)
+  // follow new lines while the view is at the bottom, like tail -f
+  const atBottomRef = useRef(true)
+
+  useEffect(() => {
+    window.localStorage.setItem('logTimeMode', timeMode)
+  }, [timeMode])
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<string, number> = {}
+    for (const l of logs) counts[l.level] = (counts[l.level] ?? 0) + 1
+    return counts
+  }, [logs])
+
+  const nodeIds = useMemo(() => [...new Set(logs.map((l) => l.nodeId).filter((id): id is string => !!id))].sort(), [logs])
+
+  const { entries, error: queryError } = useMemo(
+    () => filterLogs(logs, { levels, nodeId, query, regex }),
+    [logs, levels, nodeId, query, regex],
+  )
+
+  const start = startedAt ?? logs[0]?.timestamp
+
+  useEffect(() => {
+    const el = listRef.current
+    if (live && el && atBottomRef.current) el.scrollTop = el.scrollHeight
+  }, [entries.length, live])
+
+  useEffect(() => {
+    if (!highlightNodeId) return
+    const row = entries.findIndex((e) => e.log.nodeId === highlightNodeId)
+    const el = listRef.current
+    if (row === -1 || !el) return
+    el.scrollTop = Math.max(row * ROW_HEIGHT - ROW_HEIGHT * 2, 0)
+  }, [highlightNodeId])
+
+  const first = Math.max(Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN, 0)
+  const last = Math.min(Math.ceil((scrollTop + VIEW_HEIGHT) / ROW_HEIGHT) + OVERSCAN, entries.length)
+  const selectedLog = selected === undefined ? undefined : logs[selected]
+
+  function toggleLevel(level: ExecutionLog['level']) {
+    setLevels((cur) => (cur.includes(level) ? cur.filter((l) => l !== level) : [...cur, level]))
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 8 }}>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+        {LOG_LEVELS.map((level) => (
+          <label key={level} style={{ display: 'flex', gap: 4, alignItems: 'center', fontSize: 12, color: levelColor(level) }}>
+            <input type="checkbox" checked={levels.includes(level)} onChange={() => toggleLevel(level)} />
+            {level} ({levelCounts[level] ?? 0})
+          </label>
+        ))}
+        <select
+          value={nodeId ?? '*'}
+          onChange={(e) => setNodeId(e.target.value === '*' ? undefined : e.target.value)}
+          style={inputStyle}
+        >
+          <option value="*">all nodes</option>
+          <option value="">no node</option>
+          {nodeIds.map((id) => (
+            <option key={id} value={id}>
+              {id}
+            </option>
+          ))}
+        </select>
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={regex ? 'regex, e.g. slippage|timeout' : 'search logs'}
+          style={{ ...inputStyle, flex: 1, minWidth: 160, fontFamily: regex ? 'monospace' : undefined }}
+        />
+        <label style={{ display: 'flex', gap: 4, alignItems: 'center', fontSize: 12 }}>
+          <input type="checkbox" checked={regex} onChange={(e) => setRegex(e.target.checked)} />
+          regex
+        </label>
+        <select value={timeMode} onChange={(e) => setTimeMode(e.target.value as LogTimeMode)} style={inputStyle}>
+          <option value="absolute">absolute time</option>
+          <option value="relative">relative time</option>
+        </select>
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', fontSize: 12, color: 'var(--color-text-muted)' }}>
+        <span style={{ flex: 1 }}>
+          {queryError ? (
+            <span style={{ color: 'var(--color-error)' }}>invalid regex: {queryError}</span>
+          ) : (
+            `showing ${entries.length} of ${logs.length}`
+          )}
+        </span>
+        <button
+          type="button"
+          onClick={() => downloadLogs(executionId, entries.map((e) => e.log), 'ndjson')}
+          disabled={entries.length === 0}
+          style={buttonStyle}
+          title="download the lines shown as newline-delimited JSON"
+        >
+          export ndjson
+        </button>
+        <button
+          type="button"
+          onClick={() => downloadLogs(executionId, entries.map((e) => e.log), 'csv')}
+          disabled={entries.length === 0}
+          style={buttonStyle}
+          title="download the lines shown as CSV"
+        >
+          export csv
+        </button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div style={{ color: 'var(--color-text-subtle)' }}>{logs.length === 0 ? 'no logs' : 'no lines match'}</div>
+      ) : (
+        <div
+          ref={listRef}
+          onScroll={(e) => {
+            const el = e.currentTarget
+            setScrollTop(el.scrollTop)
+            atBottomRef.current = el.scrollTop + el.clientHeight >= el.scrollHeight - ROW_HEIGHT
+          }}
+          style={{
+            height: Math.min(VIEW_HEIGHT, entries.length * ROW_HEIGHT + 2),
+            overflowY: 'auto',
+            border: '1px solid var(--color-border)',
+            borderRadius: 8,
+            background: 'var(--color-bg)',
+          }}
+        >
+          <div style={{ position: 'relative', height: entries.length * ROW_HEIGHT }}>
+            {entries.slice(first, last).map(({ log, index }, i) => (
+              <div
+                key={index}
+                onClick={() => setSelected(selected === index ? undefined : index)}
+                title={log.message}
+                style={{
+                  position: 'absolute',
+                  top: (first + i) * ROW_HEIGHT,
+                  left: 0,
+                  right: 0,
+                  height: ROW_HEIGHT,
+                  display: 'flex',
+                  gap: 10,
+                  alignItems: 'center',
+                  padding: '0 8px',
+                  fontFamily: 'monospace',
+                  fontSize: 12,
+                  cursor: 'pointer',
+                  whiteSpace: 'nowrap',
+                  background: selected === index ? 'var(--color-primary-bg)' : undefined,
+                  outline: log.nodeId && highlightNodeId === log.nodeId ? '2px solid var(--color-primary)' : undefined,
+                  outlineOffset: -2,
+                }}
+              >
+                <span style={{ color: 'var(--color-text-muted)', flexShrink: 0 }}>{formatLogTime(log.timestamp, timeMode, start)}</span>
+                <span style={{ color: levelColor(log.level), fontWeight: 600, width: 40, flexShrink: 0 }}>{log.level}</span>
+                {log.nodeId ? (
+                  <button
+                    type="button"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onNodeClick?.(log.nodeId!)
+                    }}
+                    style={{ background: 'none', border: 'none', padding: 0, color: 'var(--color-primary)', fontFamily: 'monospace', fontSize: 12, flexShrink: 0, cursor: 'pointer' }}
+                    title="show this node on the graph and its output"
+                  >
+                    {log.nodeId}
+                  </button>
+                ) : null}
+                <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{log.message}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {selectedLog ? (
+        <div style={{ border: '1px solid var(--color-border)', borderRadius: 8, padding: 10, background: 'var(--color-bg)', display: 'grid', gap: 4 }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12, fontSize: 12, color: 'var(--color-text-muted)' }}>
+            <span>
+              line {selected! + 1} · {selectedLog.level}
+              {selectedLog.nodeId ? ` · node: ${selectedLog.nodeId}` : ''}
+            </span>
+            <span>{new Date(selectedLog.timestamp).toLocaleString()}</span>
+          </div>
+          <div style={{ fontSize: 13, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>{selectedLog.message}</div>
+        </div>
+      ) : null}
+    </div>
+  )
+}
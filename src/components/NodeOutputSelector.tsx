@@ -1,6 +1,8 @@
 import { useMemo, useState } from 'react'
 import type { Node } from '@xyflow/react'
+import { getAncestorIds } from '../lib/graph'
 import { nodeDocumentation } from '../lib/nodeDocumentation'
+import { getSampleOutput, listOutputPaths, previewValue } from '../lib/pinnedOutput'
 
 type Props = {
   nodes: Node[]
@@ -50,20 +52,7 @@ export default function NodeOutputSelector({
 
   // Get all nodes that come before the current node in the flow
   const previousNodes = useMemo(() => {
-    const ancestors = new Set<string>()
-    
-    // BFS backwards from current node to find all ancestors
-    const queue = [currentNodeId]
-    while (queue.length > 0) {
-      const nodeId = queue.shift()!
-      for (const edge of edges) {
-        if (edge.target === nodeId && !ancestors.has(edge.source)) {
-          ancestors.add(edge.source)
-          queue.push(edge.source)
-        }
-      }
-    }
-
+    const ancestors = getAncestorIds(currentNodeId, edges)
     return nodes.filter((n) => ancestors.has(n.id))
   }, [nodes, currentNodeId, edges])
 
@@ -84,6 +73,19 @@ export default function NodeOutputSelector({
         group: nodeLabel,
       })
 
+      // Pinned sample data (or a webhook's payload schema) knows the real nested fields
+      const sample = getSampleOutput(node)
+      if (sample !== undefined) {
+        for (const p of listOutputPaths(sample)) {
+          result.push({
+            label: `${nodeLabel} → ${p.path} = ${previewValue(p.value)}`,
+            value: `{{nodes.${node.id}.output.${p.path}}}`,
+            group: nodeLabel,
+          })
+        }
+        continue
+      }
+
       // Add individual output fields
       for (const output of outputs) {
         result.push({
@@ -0,0 +1,350 @@
+import { Link } from 'react-router-dom'
+import type { Edge, Node } from '@xyflow/react'
+import type { CredentialSummary, MetaResponse } from '../lib/api'
+import { acceptsTemplates, getNodeDoc, isCronSchedule, isFieldVisible, validateNodeField, type NodeField } from '../lib/nodeDocumentation'
+import { lintTemplateValue, type TemplateDiagnostic } from '../lib/expressions'
+import NodeOutputSelector from './NodeOutputSelector'
+import AddressInput, { AddressSummary, TokenSelect } from './AddressInput'
+import CronPreview from './CronPreview'
+import WorkflowPicker from './WorkflowPicker'
+
+type Props = {
+  nodeId: string
+  // workflow being edited, for fields that reference other workflows
+  workflowId?: string
+  nodeType: string
+  data: Record<string, unknown>
+  nodes: Node[]
+  edges: Edge[]
+  credentials: CredentialSummary[]
+  meta: MetaResponse | undefined
+  disabled?: boolean
+  onPatch: (patch: Record<string, unknown>) => void
+}
+
+const inputStyle = { padding: '6px 8px', borderRadius: 6, border: '1px solid var(--color-border)' }
+const labelStyle = { fontSize: 12, color: 'var(--color-text-muted)' }
+const hintStyle = { fontSize: 11, color: 'var(--color-text-subtle)' }
+
+function toInputValue(v: unknown): string {
+  if (v === undefined || v === null) return ''
+  return typeof v === 'string' ? v : String(v)
+}
+
+function toJsonText(v: unknown): string {
+  if (typeof v === 'string') return v
+  try {
+    return JSON.stringify(v ?? null, null, 2)
+  } catch {
+    return ''
+  }
+}
+
+export default function NodePropertyFields({
+  nodeId,
+  workflowId,
+  nodeType,
+  data,
+  nodes,
+  edges,
+  credentials,
+  meta,
+  disabled,
+  onPatch,
+}: Props) {
+  const doc = getNodeDoc(nodeType)
+  if (!doc?.fields?.length && !doc?.notes?.length) return null
+
+  function templateDiagnostics(field: NodeField): TemplateDiagnostic[] {
+    const value = data[field.name]
+    if (!acceptsTemplates(field) || value === undefined || value === null) return []
+    return lintTemplateValue(value, { nodeId, nodes, edges })
+  }
+
+  function renderControl(field: NodeField) {
+    const value = data[field.name]
+
+    switch (field.type) {
+      case 'credential': {
+        const options = field.provider ? credentials.filter((c) => c.provider === field.provider) : credentials
+        return (
+          <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+            <select
+              value={typeof value === 'string' ? value : ''}
+              onChange={(e) => onPatch({ [field.name]: e.target.value || undefined })}
+              disabled={disabled}
+              style={{ ...inputStyle, flex: 1 }}
+            >
+              <option value="">{field.provider ? `select ${field.provider} credential` : 'no credential'}</option>
+              {options.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.provider} · {c.name}
+                </option>
+              ))}
+            </select>
+            <Link
+              to="/credentials"
+              style={{
+                padding: '6px 8px',
+                borderRadius: 6,
+                border: '1px solid var(--color-border)',
+                background: 'var(--color-bg)',
+                textDecoration: 'none',
+                color: 'inherit',
+                fontSize: 12,
+              }}
+            >
+              manage
+            </Link>
+          </div>
+        )
+      }
+
+      case 'workflow':
+        return (
+          <WorkflowPicker
+            value={typeof value === 'string' ? value : ''}
+            currentWorkflowId={workflowId}
+            disabled={disabled}
+            onChange={(id) => onPatch({ [field.name]: id })}
+          />
+        )
+
+      case 'select': {
+        const options = field.options ?? []
+        const fallback = field.default !== undefined ? String(field.default) : options[0]?.value ?? ''
+        return (
+          <select
+            value={value === undefined || value === null ? fallback : String(value)}
+            onChange={(e) => {
+              const raw = e.target.value
+              const next = raw === '' ? undefined : field.numeric ? Number(raw) : raw
+              const patch: Record<string, unknown> = { [field.name]: next }
+              for (const name of field.clears ?? []) patch[name] = undefined
+              onPatch(patch)
+            }}
+            disabled={disabled}
+            style={inputStyle}
+          >
+            {options.map((o) => (
+              <option key={o.value} value={o.value}>
+                {o.label}
+              </option>
+            ))}
+          </select>
+        )
+      }
+
+      case 'number': {
+        if (field.allowTemplate) {
+          return (
+            <input
+              value={toInputValue(value)}
+              onChange={(e) => onPatch({ [field.name]: e.target.value })}
+              disabled={disabled}
+              style={inputStyle}
+              placeholder={field.placeholder ?? (field.default !== undefined ? String(field.default) : undefined)}
+            />
+          )
+        }
+        return (
+          <input
+            type="number"
+            value={typeof value === 'number' || typeof value === 'string' ? value : ''}
+            onChange={(e) => {
+              const val = e.target.value
+              onPatch({ [field.name]: val === '' ? undefined : Number(val) })
+            }}
+            disabled={disabled}
+            style={inputStyle}
+            placeholder={field.placeholder ?? (field.default !== undefined ? String(field.default) : undefined)}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+          />
+        )
+      }
+
+      case 'output': {
+        const selector = (
+          <NodeOutputSelector
+            nodes={nodes}
+            currentNodeId={nodeId}
+            edges={edges}
+            value={toInputValue(value)}
+            onChange={(v) => onPatch({ [field.name]: v })}
+            disabled={disabled}
+            placeholder={field.placeholder}
+            forceInput={field.forceInput}
+          />
+        )
+        if (!field.address) return selector
+        return (
+          <div style={{ display: 'grid', gap: 4 }}>
+            {selector}
+            {field.address === 'mint' ? <TokenSelect onPick={(mint) => onPatch({ [field.name]: mint })} disabled={disabled} /> : null}
+            <AddressSummary value={toInputValue(value)} kind={field.address} />
+          </div>
+        )
+      }
+
+      case 'message': {
+        const mode = (data.contentMode as string) || (value ? 'custom' : 'select')
+        return (
+          <>
+            <div style={{ display: 'flex', gap: 8 }}>
+              {['select', 'custom'].map((m) => {
+                const isActive = mode === m
+                return (
+                  <button
+                    key={m}
+                    type="button"
+                    onClick={() => onPatch({ contentMode: m })}
+                    disabled={disabled}
+                    style={{
+                      padding: '6px 10px',
+                      borderRadius: 6,
+                      border: `1px solid ${isActive ? 'var(--color-border-strong, var(--color-border))' : 'var(--color-border)'}`,
+                      background: isActive ? 'var(--color-surface-strong, var(--color-surface))' : 'var(--color-surface)',
+                      cursor: 'pointer',
+                      fontSize: 12,
+                      color: isActive ? 'var(--color-text)' : 'var(--color-text-muted)',
+                      transition: 'background var(--transition-fast, 150ms ease), color var(--transition-fast, 150ms ease), border-color var(--transition-fast, 150ms ease)',
+                    }}
+                  >
+                    {m === 'select' ? 'Select from outputs' : 'Custom message'}
+                  </button>
+                )
+              })}
+            </div>
+            {mode === 'custom' ? (
+              <textarea
+                value={toInputValue(value)}
+                onChange={(e) => onPatch({ contentMode: 'custom', [field.name]: e.target.value })}
+                disabled={disabled}
+                rows={4}
+                style={inputStyle}
+                placeholder="Enter custom message"
+              />
+            ) : (
+              <NodeOutputSelector
+                nodes={nodes}
+                currentNodeId={nodeId}
+                edges={edges}
+                value={toInputValue(value)}
+                onChange={(v) => onPatch({ contentMode: 'select', [field.name]: v })}
+                disabled={disabled}
+                placeholder="Pick an output from previous nodes..."
+                allowCustom={false}
+              />
+            )}
+          </>
+        )
+      }
+
+      case 'json':
+        return (
+          <textarea
+            value={toJsonText(value)}
+            onChange={(e) => onPatch({ [field.name]: e.target.value })}
+            onBlur={(e) => {
+              const raw = e.target.value
+              if (!raw.trim()) {
+                onPatch({ [field.name]: undefined })
+                return
+              }
+              try {
+                onPatch({ [field.name]: JSON.parse(raw) })
+              } catch {
+                onPatch({ [field.name]: raw })
+              }
+            }}
+            disabled={disabled}
+            rows={6}
+            style={{ ...inputStyle, fontFamily: 'monospace' }}
+            placeholder={field.placeholder}
+          />
+        )
+
+      default: {
+        const style = { ...inputStyle, ...(field.mono ? { fontFamily: 'monospace' } : {}) }
+        // optional fields without a default are dropped rather than saved as ''
+        const onChange = (raw: string) =>
+          onPatch({ [field.name]: raw === '' && field.default === undefined ? undefined : raw })
+        if (field.address) {
+          return (
+            <AddressInput
+              value={toInputValue(value)}
+              onChange={onChange}
+              kind={field.address}
+              multiline={field.multiline}
+              disabled={disabled}
+              placeholder={field.placeholder}
+            />
+          )
+        }
+        return field.multiline ? (
+          <textarea
+            value={toInputValue(value)}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            rows={field.mono ? 3 : 4}
+            style={field.mono ? { ...style, fontSize: 11 } : style}
+            placeholder={field.placeholder}
+          />
+        ) : (
+          <input
+            value={toInputValue(value)}
+            onChange={(e) => onChange(e.target.value)}
+            disabled={disabled}
+            style={style}
+            placeholder={field.placeholder}
+          />
+        )
+      }
+    }
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 10 }}>
+      {doc.fields
+        ?.filter((field) => isFieldVisible(field, data))
+        .map((field) => {
+          const issue = validateNodeField(field, data, meta)
+          const diagnostics = templateDiagnostics(field)
+          return (
+            <div key={`${nodeId}:${field.name}`} style={{ display: 'grid', gap: 6 }}>
+              <div style={labelStyle}>{field.label}</div>
+              {renderControl(field)}
+              {field.hint ? <div style={hintStyle}>{field.hint}</div> : null}
+              {issue ? <div style={{ fontSize: 12, color: 'var(--color-error)' }}>{issue}</div> : null}
+              {diagnostics.map((d, i) => (
+                <div
+                  key={i}
+                  style={{ fontSize: 12, color: d.severity === 'error' ? 'var(--color-error)' : 'var(--color-warning)' }}
+                >
+                  {d.message}
+                </div>
+              ))}
+            </div>
+          )
+        })}
+
+      {nodeType === 'timer_trigger' && isCronSchedule(data) ? (
+        <CronPreview cron={toInputValue(data.cron)} timezone={toInputValue(data.timezone) || 'UTC'} />
+      ) : null}
+
+      {meta && doc.capsNote ? (
+        <div style={{ fontSize: 12, color: 'var(--color-text-muted)', background: 'var(--color-bg)', padding: 8, borderRadius: 6 }}>
+          {doc.capsNote(meta)}
+        </div>
+      ) : null}
+
+      {doc.notes?.map((note) => (
+        <div key={note} style={labelStyle}>
+          {note}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react'
+import { getExecution, type ApiError } from '../lib/api'
+import { useWorkflowExecutions } from '../lib/hooks'
+import { PINNED_OUTPUT_KEY } from '../lib/pinnedOutput'
+
+type Props = {
+  nodeId: string
+  workflowId?: string
+  pinned: unknown
+  disabled?: boolean
+  onPatch: (patch: Record<string, unknown>) => void
+}
+
+const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '4px 8px', borderRadius: 6, fontSize: 12 }
+
+function toText(v: unknown): string {
+  return v === undefined ? '' : JSON.stringify(v, null, 2)
+}
+
+// Sample output pinned on the selected node, typed in or copied from a past run.
+// Downstream output pickers and the dry run use it instead of the documented fields.
+export default function PinnedOutputEditor({ nodeId, workflowId, pinned, disabled, onPatch }: Props) {
+  const { executions } = useWorkflowExecutions(workflowId)
+  const [text, setText] = useState(() => toText(pinned))
+  const [message, setMessage] = useState<string | undefined>()
+  const [loading, setLoading] = useState(false)
+
+  // re-sync when the node or its pin changes (switching nodes, undo/redo, copy from a run)
+  useEffect(() => {
+    setText(toText(pinned))
+    setMessage(undefined)
+  }, [nodeId, pinned])
+
+  function pin(raw: string) {
+    if (raw === toText(pinned)) return
+    if (!raw.trim()) {
+      onPatch({ [PINNED_OUTPUT_KEY]: undefined })
+      return
+    }
+    try {
+      onPatch({ [PINNED_OUTPUT_KEY]: JSON.parse(raw) })
+      setMessage(undefined)
+    } catch {
+      setMessage('not valid JSON; nothing pinned')
+    }
+  }
+
+  async function copyFromExecution(executionId: string) {
+    setLoading(true)
+    setMessage(undefined)
+    try {
+      const { execution } = await getExecution(executionId)
+      const output = execution.nodeOutputs?.[nodeId]
+      if (output === undefined) {
+        setMessage(`that run has no output for ${nodeId}`)
+        return
+      }
+      onPatch({ [PINNED_OUTPUT_KEY]: output })
+    } catch (err) {
+      setMessage((err as ApiError).message || 'failed to load execution')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div style={{ display: 'grid', gap: 6, borderTop: '1px solid var(--color-border)', paddingTop: 10 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        <span style={{ fontSize: 12, color: 'var(--color-text-muted)', flex: 1 }}>
+          pinned sample output{pinned !== undefined ? ' · pinned' : ''}
+        </span>
+        {pinned !== undefined ? (
+          <button type="button" onClick={() => onPatch({ [PINNED_OUTPUT_KEY]: undefined })} disabled={disabled} style={buttonStyle}>
+            unpin
+          </button>
+        ) : null}
+      </div>
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={(e) => pin(e.target.value)}
+        disabled={disabled}
+        rows={5}
+        spellCheck={false}
+        style={{ padding: '6px 8px', borderRadius: 6, border: '1px solid var(--color-border)', fontFamily: 'monospace', fontSize: 11 }}
+        placeholder={'{ "status": 200, "body": { "items": [] } }'}
+      />
+      {workflowId && executions.length > 0 ? (
+        <select
+          value=""
+          onChange={(e) => e.target.value && void copyFromExecution(e.target.value)}
+          disabled={disabled || loading}
+          style={{ padding: '4px 6px', borderRadius: 6, border: '1px solid var(--color-border)', fontSize: 12 }}
+        >
+          <option value="">{loading ? 'loading...' : 'copy from a past run...'}</option>
+          {executions.slice(0, 20).map((ex) => (
+            <option key={ex.id} value={ex.id}>
+              {new Date(ex.startedAt ?? ex.createdAt).toLocaleString()} · {ex.status}
+            </option>
+          ))}
+        </select>
+      ) : null}
+      {message ? <div style={{ fontSize: 12, color: 'var(--color-warning)' }}>{message}</div> : null}
+      <div style={{ fontSize: 11, color: 'var(--color-text-subtle)' }}>
+        used by later nodes' output pickers and the dry run in place of live data. saved with the node.
+      </div>
+    </div>
+  )
+}
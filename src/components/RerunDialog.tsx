@@ -0,0 +1,153 @@
+import { useState } from 'react'
+import { hasMovedFundsBefore, type RerunNode, type RerunPlan } from '../lib/rerun'
+
+type Props = {
+  plan: RerunPlan
+  busy?: boolean
+  error?: string
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+function nodeLabel(n: RerunNode) {
+  return `${n.type || 'node'} (${n.nodeId})`
+}
+
+// Confirms a replay or resume, spelling out which steps run again. Anything that can
+// move funds has to be acknowledged, loudest when it already succeeded last time.
+export default function RerunDialog({ plan, busy, error, onConfirm, onCancel }: Props) {
+  const [acknowledged, setAcknowledged] = useState(false)
+
+  const repeated = plan.valueMoving.filter(hasMovedFundsBefore)
+  const firstTime = plan.valueMoving.filter((n) => !hasMovedFundsBefore(n))
+  const needsAck = plan.valueMoving.length > 0
+  const title = plan.mode === 'replay' ? 'replay this run?' : `resume from ${plan.fromNodeId}?`
+
+  const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '6px 10px', borderRadius: 8, fontSize: 12 }
+  const listStyle = { margin: 0, paddingLeft: 18, fontSize: 12, display: 'grid', gap: 2 }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: 24,
+      }}
+    >
+      <div
+        className="card"
+        style={{ width: '100%', maxWidth: 620, maxHeight: '85vh', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}
+      >
+        <div style={{ padding: '16px 20px', borderBottom: '1px solid var(--color-border)', display: 'grid', gap: 4 }}>
+          <div style={{ fontSize: 15, fontWeight: 600 }}>{title}</div>
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+            {plan.mode === 'replay'
+              ? 'starts a new execution with the original trigger payload; every step after the trigger runs again.'
+              : 'starts a new execution at this node; steps before it are not run, their saved outputs are reused.'}
+          </div>
+        </div>
+
+        <div style={{ overflow: 'auto', flex: 1, padding: '12px 20px', display: 'grid', gap: 14, alignContent: 'start' }}>
+          {plan.error ? <div style={{ fontSize: 13, color: 'var(--color-error)' }}>{plan.error}</div> : null}
+
+          {repeated.length ? (
+            <div style={{ background: 'var(--color-error-bg)', color: 'var(--color-error)', padding: 10, borderRadius: 6, display: 'grid', gap: 6 }}>
+              <div style={{ fontSize: 13, fontWeight: 600 }}>these already succeeded and would move funds again</div>
+              <ul style={listStyle}>
+                {repeated.map((n) => (
+                  <li key={n.nodeId}>{nodeLabel(n)}</li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {firstTime.length ? (
+            <div style={{ display: 'grid', gap: 6 }}>
+              <div style={{ fontSize: 13, color: 'var(--color-warning)' }}>these can move funds and will run</div>
+              <ul style={listStyle}>
+                {firstTime.map((n) => (
+                  <li key={n.nodeId}>
+                    {nodeLabel(n)}
+                    {n.previousStatus ? ` · was ${n.previousStatus}` : ' · did not run before'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+
+          {plan.warnings.map((w) => (
+            <div key={w} style={{ fontSize: 12, color: 'var(--color-warning)' }}>
+              {w}
+            </div>
+          ))}
+
+          {!plan.error ? (
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 12 }}>
+              <div style={{ display: 'grid', gap: 4, alignContent: 'start' }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>runs again ({plan.runs.length})</div>
+                {plan.runs.length ? (
+                  <ul style={listStyle}>
+                    {plan.runs.map((n) => (
+                      <li key={n.nodeId}>{nodeLabel(n)}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div style={{ fontSize: 12, color: 'var(--color-text-subtle)' }}>nothing</div>
+                )}
+              </div>
+              <div style={{ display: 'grid', gap: 4, alignContent: 'start' }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>reuses output of ({plan.reused.length})</div>
+                {plan.reused.length ? (
+                  <ul style={listStyle}>
+                    {plan.reused.map((n) => (
+                      <li key={n.nodeId}>{nodeLabel(n)}</li>
+                    ))}
+                  </ul>
+                ) : (
+                  <div style={{ fontSize: 12, color: 'var(--color-text-subtle)' }}>nothing</div>
+                )}
+              </div>
+            </div>
+          ) : null}
+
+          {error ? <div style={{ fontSize: 12, color: 'var(--color-error)' }}>{error}</div> : null}
+        </div>
+
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid var(--color-border)',
+            display: 'flex',
+            gap: 8,
+            alignItems: 'center',
+          }}
+        >
+          <div style={{ flex: 1 }}>
+            {needsAck && !plan.error ? (
+              <label style={{ display: 'flex', gap: 6, alignItems: 'center', fontSize: 12 }}>
+                <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+                i understand the nodes above will send transactions
+              </label>
+            ) : null}
+          </div>
+          <button type="button" onClick={onCancel} disabled={busy} style={buttonStyle}>
+            cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={busy || !!plan.error || (needsAck && !acknowledged)}
+            style={{ background: 'var(--color-text)', color: 'var(--color-bg)', border: '1px solid var(--color-text)', padding: '6px 12px', borderRadius: 8, fontSize: 12 }}
+          >
+            {busy ? '...' : plan.mode === 'replay' ? 'replay' : 'resume'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
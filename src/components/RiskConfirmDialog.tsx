@@ -0,0 +1,119 @@
+import { useState } from 'react'
+import { formatExposure, type RiskSummary } from '../lib/riskPreview'
+
+type Props = {
+  summary: RiskSummary
+  busy?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+function formatAmount(v: number | undefined, unit: string): string {
+  return v === undefined ? '—' : `${Number(v.toFixed(6)).toLocaleString()} ${unit}`
+}
+
+// Shown before enabling a workflow that can move funds; the user has to tick the box.
+export default function RiskConfirmDialog({ summary, busy, onConfirm, onCancel }: Props) {
+  const [acknowledged, setAcknowledged] = useState(false)
+
+  const cellStyle = { padding: '6px 10px', borderTop: '1px solid var(--color-border)', verticalAlign: 'top' as const }
+  const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '6px 10px', borderRadius: 8, fontSize: 12 }
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.5)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 1000,
+        padding: 24,
+      }}
+    >
+      <div
+        className="card"
+        style={{ width: '100%', maxWidth: 760, maxHeight: '85vh', display: 'flex', flexDirection: 'column', overflow: 'hidden' }}
+      >
+        <div style={{ padding: '16px 20px', borderBottom: '1px solid var(--color-border)', display: 'grid', gap: 4 }}>
+          <div style={{ fontSize: 15, fontWeight: 600 }}>enable automation that moves funds?</div>
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>{summary.runsPerDayNote}</div>
+        </div>
+
+        <div style={{ overflow: 'auto', flex: 1, padding: '12px 20px', display: 'grid', gap: 16, alignContent: 'start' }}>
+          {summary.warnings.map((w) => (
+            <div key={w} style={{ fontSize: 12, color: 'var(--color-warning)' }}>
+              {w}
+            </div>
+          ))}
+
+          {summary.wallets.map((wallet) => (
+            <div key={wallet.key} style={{ display: 'grid', gap: 6 }}>
+              <div style={{ fontSize: 13, fontWeight: 600 }}>{wallet.label}</div>
+              <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+                worst case per run: {formatExposure(wallet.perRun)} · per day: {formatExposure(wallet.perDay)}
+              </div>
+              <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 12 }}>
+                <thead>
+                  <tr style={{ textAlign: 'left', color: 'var(--color-text-muted)' }}>
+                    <th style={{ padding: '6px 10px' }}>node</th>
+                    <th style={{ padding: '6px 10px' }}>amount per run</th>
+                    <th style={{ padding: '6px 10px' }}>cap</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {wallet.items.map((item) => {
+                    const overCap = item.amount !== undefined && item.cap !== undefined && item.amount > item.cap
+                    return (
+                      <tr key={item.nodeId}>
+                        <td style={cellStyle}>
+                          {item.type} ({item.nodeId})
+                          {item.note ? <div style={{ color: 'var(--color-text-subtle)' }}>{item.note}</div> : null}
+                        </td>
+                        <td style={{ ...cellStyle, color: overCap ? 'var(--color-error)' : undefined }}>
+                          {item.amount === undefined ? 'set at runtime' : formatAmount(item.amount, item.unit)}
+                        </td>
+                        <td style={cellStyle}>{formatAmount(item.cap, item.unit)}</td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+            caps apply per transaction; nothing limits the total spent per day besides how often the workflow runs.
+          </div>
+        </div>
+
+        <div
+          style={{
+            padding: '12px 20px',
+            borderTop: '1px solid var(--color-border)',
+            display: 'flex',
+            gap: 8,
+            alignItems: 'center',
+          }}
+        >
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center', fontSize: 12, flex: 1 }}>
+            <input type="checkbox" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+            i understand these wallets can spend up to the amounts above
+          </label>
+          <button type="button" onClick={onCancel} disabled={busy} style={buttonStyle}>
+            cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={busy || !acknowledged}
+            style={{ background: 'var(--color-text)', color: 'var(--color-bg)', border: '1px solid var(--color-text)', padding: '6px 12px', borderRadius: 8, fontSize: 12 }}
+          >
+            {busy ? '...' : 'enable'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
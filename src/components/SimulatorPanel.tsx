@@ -0,0 +1,255 @@
+import { useMemo, useState } from 'react'
+import { getNodeKind, getTriggerNodes } from '../lib/graph'
+import type { Definition } from '../lib/graphDiff'
+import { simulateWorkflow, type SampleSource, type SimulationStep } from '../lib/simulator'
+
+type Props = {
+  definition: Definition
+  workflowId?: string
+  onFocusNode: (nodeId: string) => void
+  onClose: () => void
+}
+
+const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '6px 10px', borderRadius: 8, fontSize: 12 }
+const codeStyle = {
+  margin: 0,
+  padding: 8,
+  borderRadius: 6,
+  background: 'var(--color-bg-subtle)',
+  fontFamily: 'monospace',
+  fontSize: 11,
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const,
+}
+
+const sourceLabel: Record<SampleSource, string> = {
+  provided: 'custom sample',
+  pinned: 'pinned sample',
+  doc: 'doc sample',
+  computed: 'evaluated',
+}
+
+function formatJson(v: unknown): string {
+  return JSON.stringify(v, null, 2) ?? 'undefined'
+}
+
+function StepCard({
+  step,
+  sampleText,
+  sampleError,
+  onSampleChange,
+  onFocus,
+}: {
+  step: SimulationStep
+  sampleText: string | undefined
+  sampleError: string | undefined
+  onSampleChange: (text: string | undefined) => void
+  onFocus: () => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const ran = step.status === 'ran'
+
+  return (
+    <div
+      style={{
+        border: '1px solid var(--color-border)',
+        borderRadius: 8,
+        padding: 10,
+        display: 'grid',
+        gap: 8,
+        fontSize: 12,
+        opacity: ran ? 1 : 0.55,
+      }}
+    >
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <button
+          type="button"
+          onClick={onFocus}
+          style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontWeight: 600, fontSize: 12, color: 'inherit' }}
+        >
+          {step.type} ({step.nodeId})
+        </button>
+        <div style={{ flex: 1 }} />
+        {step.branch ? (
+          <span style={{ color: step.branch === 'true' ? 'var(--color-success)' : 'var(--color-error)' }}>→ {step.branch}</span>
+        ) : null}
+        <span style={{ color: 'var(--color-text-muted)' }}>
+          {ran ? sourceLabel[step.outputSource ?? 'computed'] : 'skipped'}
+        </span>
+      </div>
+
+      {step.errors.map((e) => (
+        <div key={e} style={{ color: 'var(--color-warning)' }}>
+          {e}
+        </div>
+      ))}
+
+      {ran ? (
+        <>
+          {Object.keys(step.inputs).length > 0 ? (
+            <div style={{ display: 'grid', gap: 4 }}>
+              <span style={{ color: 'var(--color-text-muted)' }}>resolved inputs</span>
+              <pre style={codeStyle}>{formatJson(step.inputs)}</pre>
+            </div>
+          ) : null}
+          <div style={{ display: 'grid', gap: 4 }}>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <span style={{ color: 'var(--color-text-muted)', flex: 1 }}>output</span>
+              {step.outputSource !== 'computed' ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (!editing && sampleText === undefined) onSampleChange(formatJson(step.output))
+                    setEditing(!editing)
+                  }}
+                  style={{ ...buttonStyle, padding: '2px 8px', fontSize: 11 }}
+                >
+                  {editing ? 'done' : 'edit sample'}
+                </button>
+              ) : null}
+              {sampleText !== undefined ? (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onSampleChange(undefined)
+                    setEditing(false)
+                  }}
+                  style={{ ...buttonStyle, padding: '2px 8px', fontSize: 11 }}
+                >
+                  reset
+                </button>
+              ) : null}
+            </div>
+            {editing ? (
+              <textarea
+                value={sampleText ?? ''}
+                onChange={(e) => onSampleChange(e.target.value)}
+                rows={6}
+                spellCheck={false}
+                style={{ ...codeStyle, border: `1px solid ${sampleError ? 'var(--color-error)' : 'var(--color-border)'}`, resize: 'vertical' }}
+              />
+            ) : (
+              <pre style={codeStyle}>{formatJson(step.output)}</pre>
+            )}
+            {sampleError ? <span style={{ color: 'var(--color-error)' }}>{sampleError}</span> : null}
+          </div>
+        </>
+      ) : null}
+    </div>
+  )
+}
+
+// Dry run of the current draft: nothing is saved or sent to the backend.
+export default function SimulatorPanel({ definition, workflowId, onFocusNode, onClose }: Props) {
+  // raw JSON typed by the user, keyed by node id
+  const [sampleTexts, setSampleTexts] = useState<Record<string, string>>({})
+
+  const { samples, sampleErrors } = useMemo(() => {
+    const samples: Record<string, unknown> = {}
+    const sampleErrors: Record<string, string> = {}
+    for (const [nodeId, text] of Object.entries(sampleTexts)) {
+      try {
+        samples[nodeId] = JSON.parse(text)
+      } catch {
+        sampleErrors[nodeId] = 'not valid JSON; using the pinned or doc sample'
+      }
+    }
+    return { samples, sampleErrors }
+  }, [sampleTexts])
+
+  const triggers = useMemo(() => getTriggerNodes(definition.nodes), [definition.nodes])
+  const [triggerId, setTriggerId] = useState<string | undefined>()
+
+  const result = useMemo(
+    () => simulateWorkflow(definition, { samples, workflowId, triggerId }),
+    [definition, samples, workflowId, triggerId],
+  )
+
+  const setSample = (nodeId: string, text: string | undefined) => {
+    setSampleTexts((prev) => {
+      const next = { ...prev }
+      if (text === undefined) delete next[nodeId]
+      else next[nodeId] = text
+      return next
+    })
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: 460,
+        maxWidth: '100%',
+        zIndex: 30,
+        background: 'var(--color-bg)',
+        borderLeft: '1px solid var(--color-border)',
+        boxShadow: '-4px 0 12px rgba(16, 24, 40, 0.08)',
+        display: 'flex',
+        flexDirection: 'column',
+      }}
+    >
+      <div style={{ padding: '12px 14px', borderBottom: '1px solid var(--color-border)', display: 'flex', alignItems: 'center', gap: 8 }}>
+        <div style={{ fontSize: 13, fontWeight: 600, flex: 1 }}>dry run</div>
+        {Object.keys(sampleTexts).length > 0 ? (
+          <button type="button" onClick={() => setSampleTexts({})} style={buttonStyle}>
+            reset samples
+          </button>
+        ) : null}
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          close
+        </button>
+      </div>
+
+      <div style={{ overflow: 'auto', flex: 1, padding: 14, display: 'grid', gap: 10, alignContent: 'start' }}>
+        <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+          simulated in the browser with sample outputs; nothing is sent or executed. edit a node's sample to try other
+          values.
+        </div>
+
+        {triggers.length > 1 ? (
+          <label style={{ fontSize: 12, display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={{ color: 'var(--color-text-muted)' }}>fire</span>
+            <select
+              value={triggerId ?? triggers[0].id}
+              onChange={(e) => setTriggerId(e.target.value)}
+              style={{ padding: '4px 6px', borderRadius: 6, border: '1px solid var(--color-border)', fontSize: 12 }}
+            >
+              {triggers.map((n) => (
+                <option key={n.id} value={n.id}>
+                  {getNodeKind(n)} ({n.id})
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
+        {result.errors.map((e) => (
+          <div key={e} style={{ fontSize: 12, color: 'var(--color-error)' }}>
+            {e}
+          </div>
+        ))}
+
+        {result.path.length > 0 ? (
+          <div style={{ fontSize: 12, display: 'grid', gap: 4 }}>
+            <span style={{ color: 'var(--color-text-muted)' }}>path taken</span>
+            <div style={{ fontFamily: 'monospace', fontSize: 11 }}>{result.path.join(' → ')}</div>
+          </div>
+        ) : null}
+
+        {result.steps.map((step) => (
+          <StepCard
+            key={step.nodeId}
+            step={step}
+            sampleText={sampleTexts[step.nodeId]}
+            sampleError={sampleErrors[step.nodeId]}
+            onSampleChange={(text) => setSample(step.nodeId, text)}
+            onFocus={() => onFocusNode(step.nodeId)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from 'react'
+import GraphDiffView from './GraphDiffView'
+import type { Definition } from '../lib/graphDiff'
+import { listVersions, type VersionReason, type WorkflowVersion } from '../lib/versionStore'
+
+type Props = {
+  workflowId: string
+  current: Definition | undefined
+  // bump to reload after a new snapshot is recorded
+  revision: number
+  onRestore: (version: WorkflowVersion) => void
+  onClose: () => void
+}
+
+type CompareTo = 'previous' | 'current'
+
+const reasonLabel: Record<VersionReason, string> = {
+  save: 'saved',
+  enable: 'enabled',
+  disable: 'disabled',
+}
+
+const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '6px 10px', borderRadius: 8, fontSize: 12 }
+
+export default function VersionHistoryDrawer({ workflowId, current, revision, onRestore, onClose }: Props) {
+  const [versions, setVersions] = useState<WorkflowVersion[] | undefined>()
+  const [selectedId, setSelectedId] = useState<number | undefined>()
+  const [compareTo, setCompareTo] = useState<CompareTo>('previous')
+
+  useEffect(() => {
+    let cancelled = false
+    void listVersions(workflowId).then((list) => {
+      if (!cancelled) setVersions(list)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [workflowId, revision])
+
+  const selectedIndex = versions?.findIndex((v) => v.id === selectedId) ?? -1
+  const selected = selectedIndex >= 0 ? versions![selectedIndex] : undefined
+  const previous = selectedIndex >= 0 ? versions![selectedIndex + 1] : undefined
+
+  // previous: what this version changed; current: what restoring it would change
+  const comparison = useMemo(() => {
+    if (!selected) return undefined
+    if (compareTo === 'current') return current ? { before: current, after: selected.definition } : undefined
+    return { before: previous?.definition ?? { nodes: [], edges: [] }, after: selected.definition }
+  }, [selected, previous, current, compareTo])
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: 520,
+        maxWidth: '100%',
+        zIndex: 30,
+        background: 'var(--color-bg)',
+        borderLeft: '1px solid var(--color-border)',
+        boxShadow: '-4px 0 12px rgba(16, 24, 40, 0.08)',
+        display: 'flex',
+        flexDirection: 'column',
+      }}
+    >
+      <div style={{ padding: '12px 14px', borderBottom: '1px solid var(--color-border)', display: 'flex', alignItems: 'center', gap: 8 }}>
+        <div style={{ fontSize: 13, fontWeight: 600, flex: 1 }}>version history</div>
+        <button type="button" onClick={onClose} style={buttonStyle}>
+          close
+        </button>
+      </div>
+
+      <div style={{ overflow: 'auto', flex: 1, padding: 14, display: 'grid', gap: 12, alignContent: 'start' }}>
+        {!versions ? (
+          <div style={{ fontSize: 12, color: 'var(--color-text-subtle)' }}>loading...</div>
+        ) : versions.length === 0 ? (
+          <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+            no versions yet. a snapshot is kept in this browser every time you save or enable/disable the workflow.
+          </div>
+        ) : (
+          <div style={{ display: 'grid', gap: 4 }}>
+            {versions.map((v, i) => {
+              const isSelected = v.id === selectedId
+              return (
+                <button
+                  key={v.id}
+                  type="button"
+                  onClick={() => setSelectedId(isSelected ? undefined : v.id)}
+                  style={{
+                    display: 'flex',
+                    gap: 8,
+                    alignItems: 'center',
+                    textAlign: 'left',
+                    padding: '8px 10px',
+                    borderRadius: 8,
+                    fontSize: 12,
+                    cursor: 'pointer',
+                    border: `1px solid ${isSelected ? 'var(--color-primary)' : 'var(--color-border)'}`,
+                    background: isSelected ? 'var(--color-hover)' : 'var(--color-bg)',
+                    color: 'inherit',
+                  }}
+                >
+                  <span style={{ flex: 1 }}>{new Date(v.createdAt).toLocaleString()}</span>
+                  <span style={{ color: 'var(--color-text-muted)' }}>{reasonLabel[v.reason]}</span>
+                  <span style={{ color: 'var(--color-text-subtle)' }}>{v.definition.nodes.length} nodes</span>
+                  {i === 0 ? <span style={{ color: 'var(--color-success)' }}>latest</span> : null}
+                </button>
+              )
+            })}
+          </div>
+        )}
+
+        {selected ? (
+          <div style={{ display: 'grid', gap: 10, borderTop: '1px solid var(--color-border)', paddingTop: 12 }}>
+            <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+              <span style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>compare with</span>
+              <select
+                value={compareTo}
+                onChange={(e) => setCompareTo(e.target.value as CompareTo)}
+                style={{ padding: '4px 6px', borderRadius: 6, border: '1px solid var(--color-border)', fontSize: 12 }}
+              >
+                <option value="previous">previous version</option>
+                <option value="current">current draft</option>
+              </select>
+              <div style={{ flex: 1 }} />
+              <button
+                type="button"
+                onClick={() => onRestore(selected)}
+                style={{ background: 'var(--color-text)', color: 'var(--color-bg)', border: '1px solid var(--color-text)', padding: '6px 12px', borderRadius: 8, fontSize: 12 }}
+              >
+                restore as draft
+              </button>
+            </div>
+            {compareTo === 'previous' && !previous ? (
+              <div style={{ fontSize: 12, color: 'var(--color-text-subtle)' }}>oldest version kept, shown against an empty graph</div>
+            ) : null}
+            {comparison ? <GraphDiffView key={`${selected.id}:${compareTo}`} before={comparison.before} after={comparison.after} /> : null}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  )
+}
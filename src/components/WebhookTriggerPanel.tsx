@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useState } from 'react'
+import { getWebhookUrl } from '../lib/api'
+import {
+  buildSamplePayload,
+  generateSigningSecret,
+  getPayloadSchemaErrors,
+  signPayload,
+  SIGNATURE_HEADER,
+  SIGNING_SECRET_KEY,
+} from '../lib/webhook'
+
+type Props = {
+  nodeId: string
+  workflowId?: string
+  data: Record<string, unknown>
+  disabled?: boolean
+  onPatch: (patch: Record<string, unknown>) => void
+}
+
+const buttonStyle = { background: 'var(--color-bg)', border: '1px solid var(--color-border)', padding: '4px 8px', borderRadius: 6, fontSize: 12 }
+const codeStyle = {
+  margin: 0,
+  padding: 8,
+  borderRadius: 6,
+  background: 'var(--color-bg-subtle)',
+  fontFamily: 'monospace',
+  fontSize: 11,
+  whiteSpace: 'pre-wrap' as const,
+  wordBreak: 'break-all' as const,
+}
+const labelStyle = { fontSize: 12, color: 'var(--color-text-muted)' }
+
+function mask(secret: string): string {
+  return `${secret.slice(0, 10)}${'•'.repeat(12)}${secret.slice(-4)}`
+}
+
+// Endpoint, secret and a ready-to-send example for the selected webhook_trigger
+export default function WebhookTriggerPanel({ nodeId, workflowId, data, disabled, onPatch }: Props) {
+  const [revealed, setRevealed] = useState(false)
+  const [copied, setCopied] = useState<string | undefined>()
+  const [signature, setSignature] = useState<string | undefined>()
+
+  const secret = typeof data[SIGNING_SECRET_KEY] === 'string' ? (data[SIGNING_SECRET_KEY] as string) : ''
+  const useToken = data.verification === 'token'
+  const url = workflowId ? getWebhookUrl(workflowId, nodeId, useToken ? secret || '<secret>' : undefined) : undefined
+
+  const sample = useMemo(() => {
+    const schema = data.payloadSchema
+    const usable = schema && typeof schema === 'object' && getPayloadSchemaErrors(schema).length === 0
+    return buildSamplePayload(usable ? schema : {})
+  }, [data.payloadSchema])
+  // the exact bytes the example sends, which is what gets signed
+  const sampleBody = JSON.stringify(sample)
+
+  useEffect(() => {
+    setRevealed(false)
+    setCopied(undefined)
+  }, [nodeId])
+
+  useEffect(() => {
+    let cancelled = false
+    if (!secret || useToken) {
+      setSignature(undefined)
+      return
+    }
+    void signPayload(secret, sampleBody).then((s) => {
+      if (!cancelled) setSignature(s)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [secret, sampleBody, useToken])
+
+  async function copy(label: string, text: string) {
+    try {
+      await navigator.clipboard.writeText(text)
+      setCopied(label)
+    } catch {
+      setCopied(undefined)
+    }
+  }
+
+  function regenerate() {
+    if (secret && !window.confirm('generate a new secret? callers using the old one will be rejected once you save.')) return
+    onPatch({ [SIGNING_SECRET_KEY]: generateSigningSecret() })
+    setRevealed(true)
+  }
+
+  // the secret shows up in token urls and signed examples, so hide it there too
+  const hide = (text: string) => (secret && !revealed ? text.split(secret).join(mask(secret)) : text)
+
+  const curl = url
+    ? [
+        `curl -X POST '${url}'`,
+        `  -H 'content-type: application/json'`,
+        ...(signature ? [`  -H '${SIGNATURE_HEADER}: ${signature}'`] : []),
+        `  -d '${sampleBody}'`,
+      ].join(' \\\n')
+    : undefined
+
+  return (
+    <div style={{ display: 'grid', gap: 8, borderTop: '1px solid var(--color-border)', paddingTop: 10 }}>
+      <div style={{ display: 'grid', gap: 4 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span style={{ ...labelStyle, flex: 1 }}>endpoint url</span>
+          {url ? (
+            <button type="button" onClick={() => void copy('url', url)} style={buttonStyle}>
+              {copied === 'url' ? 'copied' : 'copy'}
+            </button>
+          ) : null}
+        </div>
+        {url ? (
+          <div style={codeStyle}>{hide(url)}</div>
+        ) : (
+          <div style={{ fontSize: 12, color: 'var(--color-warning)' }}>save the workflow to get its url</div>
+        )}
+        <div style={{ fontSize: 11, color: 'var(--color-text-subtle)' }}>
+          POST JSON here; the workflow must be enabled for requests to start runs.
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gap: 4 }}>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+          <span style={{ ...labelStyle, flex: 1 }}>signing secret</span>
+          {secret ? (
+            <>
+              <button type="button" onClick={() => setRevealed(!revealed)} style={buttonStyle}>
+                {revealed ? 'hide' : 'show'}
+              </button>
+              <button type="button" onClick={() => void copy('secret', secret)} style={buttonStyle}>
+                {copied === 'secret' ? 'copied' : 'copy'}
+              </button>
+            </>
+          ) : null}
+          <button type="button" onClick={regenerate} disabled={disabled} style={buttonStyle}>
+            {secret ? 'regenerate' : 'generate'}
+          </button>
+        </div>
+        {secret ? <div style={codeStyle}>{revealed ? secret : mask(secret)}</div> : null}
+        <div style={{ fontSize: 11, color: 'var(--color-text-subtle)' }}>
+          {useToken
+            ? 'sent as ?token= in the url. anyone with the url can start runs, so treat it like a password.'
+            : `sign the raw body with HMAC-SHA256 and send it as ${SIGNATURE_HEADER}: sha256=<hex>.`}
+        </div>
+      </div>
+
+      <div style={{ display: 'grid', gap: 4 }}>
+        <span style={labelStyle}>sample payload</span>
+        <pre style={codeStyle}>{JSON.stringify(sample, null, 2)}</pre>
+      </div>
+
+      {curl ? (
+        <div style={{ display: 'grid', gap: 4 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={{ ...labelStyle, flex: 1 }}>try it</span>
+            <button type="button" onClick={() => void copy('curl', curl)} style={buttonStyle}>
+              {copied === 'curl' ? 'copied' : 'copy'}
+            </button>
+          </div>
+          <pre style={codeStyle}>{hide(curl)}</pre>
+        </div>
+      ) : null}
+    </div>
+  )
+}
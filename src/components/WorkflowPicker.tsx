@@ -0,0 +1,55 @@
+import { Link } from 'react-router-dom'
+import { useWorkflows } from '../lib/hooks'
+
+type Props = {
+  value: string
+  // the workflow being edited, which can't call itself
+  currentWorkflowId?: string
+  disabled?: boolean
+  onChange: (workflowId: string | undefined) => void
+}
+
+const inputStyle = { padding: '6px 8px', borderRadius: 6, border: '1px solid var(--color-border)' }
+
+export default function WorkflowPicker({ value, currentWorkflowId, disabled, onChange }: Props) {
+  const { workflows, isLoading } = useWorkflows()
+  const options = workflows.filter((w) => w.id !== currentWorkflowId)
+  const missing = !!value && !isLoading && !workflows.some((w) => w.id === value)
+
+  return (
+    <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value || undefined)}
+        disabled={disabled}
+        style={{ ...inputStyle, flex: 1 }}
+      >
+        <option value="">{isLoading ? 'loading workflows...' : 'select workflow'}</option>
+        {missing ? <option value={value}>missing workflow {value.slice(0, 8)}</option> : null}
+        {options.map((w) => (
+          <option key={w.id} value={w.id}>
+            {w.name}
+          </option>
+        ))}
+      </select>
+      {value && !missing ? (
+        <Link
+          to={`/editor/${value}`}
+          target="_blank"
+          rel="noreferrer"
+          style={{
+            padding: '6px 8px',
+            borderRadius: 6,
+            border: '1px solid var(--color-border)',
+            background: 'var(--color-bg)',
+            textDecoration: 'none',
+            color: 'inherit',
+            fontSize: 12,
+          }}
+        >
+          open
+        </Link>
+      ) : null}
+    </div>
+  )
+}
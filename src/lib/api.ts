@@ -5,6 +5,8 @@ export type ApiError = {
   status: number
   code?: string
   requestId?: string
+  // structured payload some errors carry (e.g. the current workflow on a save conflict)
+  details?: unknown
 }
 
 function getApiBaseUrl() {
@@ -25,7 +27,21 @@ async function readJsonSafely(res: Response) {
   }
 }
 
-async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+async function readApiError(res: Response): Promise<ApiError> {
+  const payload = await readJsonSafely(res)
+  const message =
+    (payload as any)?.error?.message ||
+    (payload as any)?.message ||
+    (typeof payload === 'string' ? payload : 'request failed')
+
+  const code = (payload as any)?.error?.code
+  const requestId = (payload as any)?.error?.requestId || res.headers.get('x-request-id') || undefined
+  const details = (payload as any)?.error?.details
+
+  return { message, status: res.status, code, requestId, details }
+}
+
+function send(path: string, init: RequestInit = {}): Promise<Response> {
   const token = getAuthToken()
   const headers = new Headers(init.headers)
 
@@ -37,24 +53,18 @@ async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
     headers.set('authorization', `Bearer ${token}`)
   }
 
-  const res = await fetch(`${getApiBaseUrl()}${path}`, {
+  return fetch(`${getApiBaseUrl()}${path}`, {
     ...init,
     headers,
     cache: 'no-store',
   })
+}
 
-  if (!res.ok) {
-    const payload = await readJsonSafely(res)
-    const message =
-      (payload as any)?.error?.message ||
-      (payload as any)?.message ||
-      (typeof payload === 'string' ? payload : 'request failed')
-
-    const code = (payload as any)?.error?.code
-    const requestId = (payload as any)?.error?.requestId || res.headers.get('x-request-id') || undefined
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const res = await send(path, init)
 
-    const err: ApiError = { message, status: res.status, code, requestId }
-    throw err
+  if (!res.ok) {
+    throw await readApiError(res)
   }
 
   return (await readJsonSafely(res)) as T
@@ -116,8 +126,14 @@ export type NodeExecutionState = {
   startedAt?: string
   finishedAt?: string
   error?: string
+  // output carried over from the execution this one resumed; the node didn't run
+  reused?: boolean
 }
 
+// replay: the whole run again from the original trigger payload
+// resume: from one failed node onwards, reusing the outputs of everything before it
+export type RerunMode = 'replay' | 'resume'
+
 export type Execution = {
   id: string
   workflowId: string
@@ -125,6 +141,16 @@ export type Execution = {
   status: ExecutionStatus
   startedAt?: string
   finishedAt?: string
+  // trigger node that started the run; manual runs name the trigger they ran from
+  triggerNodeId?: string
+  triggerType?: string
+  // set on runs started by a call_workflow node in another execution
+  parentExecutionId?: string
+  parentNodeId?: string
+  // set on replays and resumes: the execution this one re-ran
+  rerunOfExecutionId?: string
+  rerunMode?: RerunMode
+  resumeFromNodeId?: string
   logs: ExecutionLog[]
   nodeStatuses?: Record<string, NodeExecutionState>
   nodeOutputs?: Record<string, unknown>
@@ -139,6 +165,14 @@ export type ExecutionSummary = {
   status: ExecutionStatus
   startedAt?: string
   finishedAt?: string
+  // trigger node that started the run; manual runs name the trigger they ran from
+  triggerNodeId?: string
+  triggerType?: string
+  parentExecutionId?: string
+  parentNodeId?: string
+  rerunOfExecutionId?: string
+  rerunMode?: RerunMode
+  resumeFromNodeId?: string
   createdAt: string
   updatedAt: string
 }
@@ -217,6 +251,8 @@ export async function updateWorkflow(
     enabled?: boolean
     overlapPolicy?: 'skip' | 'queue' | 'allow'
     maxBacklog?: number
+    // updatedAt the client last saw; the server answers 409 if the workflow changed since
+    expectedUpdatedAt?: string
   },
 ) {
   return request<WorkflowResponse>(`/workflows/${id}`, {
@@ -225,12 +261,42 @@ export async function updateWorkflow(
   })
 }
 
+// The server's current copy when a save was rejected because someone else saved first
+export function getWorkflowConflict(err: ApiError): Workflow | undefined {
+  if (err.status !== 409) return undefined
+  const workflow = (err.details as { workflow?: Workflow } | undefined)?.workflow
+  return workflow && typeof workflow.id === 'string' ? workflow : undefined
+}
+
 export async function deleteWorkflow(id: string) {
   return request<{ ok: true }>(`/workflows/${id}`, { method: 'DELETE' })
 }
 
-export async function runWorkflow(id: string) {
-  return request<ExecutionResponse>(`/workflows/${id}/run`, { method: 'POST' })
+// Public endpoint a webhook_trigger listens on. Token verification carries the secret
+// in the query string because senders like TradingView cannot add headers.
+export function getWebhookUrl(workflowId: string, nodeId: string, token?: string) {
+  const url = `${getApiBaseUrl()}/webhooks/${workflowId}/${nodeId}`
+  return token ? `${url}?token=${encodeURIComponent(token)}` : url
+}
+
+// With several triggers, triggerNodeId picks the entry point; the backend defaults to the first
+export async function runWorkflow(id: string, options: { triggerNodeId?: string } = {}) {
+  return request<ExecutionResponse>(`/workflows/${id}/run`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  })
+}
+
+// Both run the workflow's current definition and answer with the new execution
+export async function replayExecution(id: string) {
+  return request<ExecutionResponse>(`/executions/${id}/replay`, { method: 'POST' })
+}
+
+export async function resumeExecution(id: string, fromNodeId: string) {
+  return request<ExecutionResponse>(`/executions/${id}/resume`, {
+    method: 'POST',
+    body: JSON.stringify({ fromNodeId }),
+  })
 }
 
 export async function listWorkflowExecutions(workflowId: string) {
@@ -241,6 +307,50 @@ export async function getExecution(id: string) {
   return request<{ execution: Execution }>(`/executions/${id}`)
 }
 
+// Pushed by GET /executions/:id/stream (server-sent events). The first event is a
+// snapshot of the whole execution; the rest are changes since then.
+export type ExecutionStreamEvent =
+  | { type: 'snapshot'; execution: Execution }
+  | { type: 'log'; log: ExecutionLog }
+  | { type: 'node'; nodeId: string; state: NodeExecutionState }
+  | { type: 'output'; nodeId: string; output: unknown }
+  | { type: 'status'; status: ExecutionStatus; startedAt?: string; finishedAt?: string; updatedAt: string }
+
+const STREAM_EVENT_TYPES = new Set(['snapshot', 'log', 'node', 'output', 'status'])
+
+// Reads the stream until the server closes it or `signal` aborts. Uses fetch rather
+// than EventSource so the bearer token goes in a header, not the url.
+export async function streamExecution(id: string, onEvent: (event: ExecutionStreamEvent) => void, signal: AbortSignal) {
+  const res = await send(`/executions/${id}/stream`, { headers: { accept: 'text/event-stream' }, signal })
+  if (!res.ok) throw await readApiError(res)
+  if (!res.body || !(res.headers.get('content-type') ?? '').includes('text/event-stream')) {
+    const err: ApiError = { message: 'streaming not supported', status: res.status, code: 'stream_unsupported' }
+    throw err
+  }
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  for (;;) {
+    const { value, done } = await reader.read()
+    if (done) return
+    buffer += value.replace(/\r\n?/g, '\n')
+    let end: number
+    while ((end = buffer.indexOf('\n\n')) >= 0) {
+      const block = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      let type = 'message'
+      const data: string[] = []
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) type = line.slice(6).trim()
+        else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''))
+      }
+      // comment-only blocks are keep-alives
+      if (!STREAM_EVENT_TYPES.has(type) || data.length === 0) continue
+      onEvent({ type, ...JSON.parse(data.join('\n')) } as ExecutionStreamEvent)
+    }
+  }
+}
+
 export async function getAnalytics() {
   return request<{
     workflows: Array<{ id: string; name: string; enabled: boolean }>
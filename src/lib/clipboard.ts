@@ -0,0 +1,106 @@
+import type { Edge, Node } from '@xyflow/react'
+import { SIGNING_SECRET_KEY } from './webhook'
+
+const CLIPBOARD_FORMAT = 'cyphersol/nodes'
+const CLIPBOARD_VERSION = 1
+
+// Offset applied to pasted/duplicated nodes so they don't sit on top of the originals
+const PASTE_OFFSET = 40
+
+export type NodeClipboard = {
+  format: typeof CLIPBOARD_FORMAT
+  version: number
+  nodes: Node[]
+  edges: Edge[]
+}
+
+// Strip React Flow runtime fields so the payload only carries the definition.
+// Shared with workflow export, so neither ever carries a webhook signing secret.
+export function cleanNode(n: Node): Node {
+  const { id, position } = n
+  const data = { ...((n.data as Record<string, unknown>) || {}) }
+  delete data.onDelete
+  delete data[SIGNING_SECRET_KEY]
+  return { id, position: { x: position?.x ?? 0, y: position?.y ?? 0 }, data }
+}
+
+export function cleanEdge(e: Edge): Edge {
+  const edge: Edge = { id: e.id, source: e.source, target: e.target }
+  if (e.sourceHandle) edge.sourceHandle = e.sourceHandle
+  if (e.targetHandle) edge.targetHandle = e.targetHandle
+  return edge
+}
+
+// Only edges with both ends inside the selection are kept.
+export function buildClipboard(nodes: Node[], edges: Edge[], nodeIds: string[]): NodeClipboard {
+  const ids = new Set(nodeIds)
+  return {
+    format: CLIPBOARD_FORMAT,
+    version: CLIPBOARD_VERSION,
+    nodes: nodes.filter((n) => ids.has(n.id)).map(cleanNode),
+    edges: edges.filter((e) => ids.has(e.source) && ids.has(e.target)).map(cleanEdge),
+  }
+}
+
+export function serializeClipboard(clipboard: NodeClipboard): string {
+  return JSON.stringify(clipboard)
+}
+
+export function parseClipboard(text: string): NodeClipboard | undefined {
+  if (!text || !text.includes(CLIPBOARD_FORMAT)) return undefined
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed?.format !== CLIPBOARD_FORMAT) return undefined
+    if (typeof parsed.version !== 'number' || parsed.version > CLIPBOARD_VERSION) return undefined
+    if (!Array.isArray(parsed.nodes) || !Array.isArray(parsed.edges)) return undefined
+    const nodes = (parsed.nodes as Node[]).filter((n) => typeof n?.id === 'string')
+    const ids = new Set(nodes.map((n) => n.id))
+    const edges = (parsed.edges as Edge[]).filter((e) => ids.has(e?.source) && ids.has(e?.target))
+    return { format: CLIPBOARD_FORMAT, version: parsed.version, nodes: nodes.map(cleanNode), edges: edges.map(cleanEdge) }
+  } catch {
+    return undefined
+  }
+}
+
+// Rewrites {{nodeId.field}} and {{nodes.nodeId.output...}} references to point at remapped ids.
+// References to nodes outside the map are left untouched.
+export function remapTemplateRefs<T>(value: T, idMap: Map<string, string>): T {
+  if (typeof value === 'string') {
+    return value.replace(/\{\{(\s*)(nodes\.)?([A-Za-z0-9_-]+)(?=[.\s}])/g, (match, space, prefix, id) => {
+      const next = idMap.get(id)
+      return next ? `{{${space}${prefix ?? ''}${next}` : match
+    }) as T
+  }
+  if (Array.isArray(value)) return value.map((v) => remapTemplateRefs(v, idMap)) as T
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) out[k] = remapTemplateRefs(v, idMap)
+    return out as T
+  }
+  return value
+}
+
+// Clones clipboard nodes with fresh ids from `allocateId`, rewiring internal edges and
+// template references. Returned nodes are marked selected.
+export function cloneClipboard(
+  clipboard: NodeClipboard,
+  allocateId: () => string,
+): { nodes: Node[]; edges: Edge[] } {
+  const idMap = new Map<string, string>()
+  for (const n of clipboard.nodes) idMap.set(n.id, allocateId())
+
+  const nodes = clipboard.nodes.map((n) => ({
+    id: idMap.get(n.id)!,
+    position: { x: n.position.x + PASTE_OFFSET, y: n.position.y + PASTE_OFFSET },
+    data: remapTemplateRefs(n.data, idMap),
+    selected: true,
+  }))
+
+  const edges = clipboard.edges.map((e) => {
+    const source = idMap.get(e.source)!
+    const target = idMap.get(e.target)!
+    return { ...e, id: `e-${source}-${target}`, source, target }
+  })
+
+  return { nodes, edges }
+}
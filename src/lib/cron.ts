@@ -0,0 +1,298 @@
+// Standard 5-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in an IANA time zone. Matches the trigger service: when both day fields
+// are restricted a day matches either of them, and wall-clock times skipped by a DST
+// change never fire.
+
+export type CronSchedule = {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  // 0 = Sunday; 7 is folded into 0
+  daysOfWeek: Set<number>
+  domRestricted: boolean
+  dowRestricted: boolean
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT']
+
+type FieldSpec = { name: string; min: number; max: number; names?: string[]; namesFrom?: number }
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesFrom: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesFrom: 0 },
+]
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+// far enough to find Feb 29 schedules; anything rarer is treated as never firing
+const MAX_SCAN_DAYS = 366 * 5
+
+function parseValue(raw: string, spec: FieldSpec): number {
+  const upper = raw.toUpperCase()
+  const named = spec.names?.indexOf(upper) ?? -1
+  if (named >= 0) return named + (spec.namesFrom ?? 0)
+  if (!/^\d+$/.test(raw)) throw new Error(`${spec.name}: "${raw}" is not a number`)
+  const n = Number(raw)
+  if (n < spec.min || n > spec.max) throw new Error(`${spec.name}: ${n} is outside ${spec.min}-${spec.max}`)
+  return n
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>()
+  for (const part of text.split(',')) {
+    if (!part) throw new Error(`${spec.name}: empty list item`)
+    const [range, stepText, extra] = part.split('/')
+    if (extra !== undefined) throw new Error(`${spec.name}: "${part}" has more than one step`)
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) throw new Error(`${spec.name}: step "${stepText}" must be a positive number`)
+
+    let from: number
+    let to: number
+    if (range === '*') {
+      from = spec.min
+      to = spec.max
+    } else if (range.includes('-')) {
+      const [a, b, rest] = range.split('-')
+      if (rest !== undefined) throw new Error(`${spec.name}: range "${range}" has more than one "-"`)
+      from = parseValue(a, spec)
+      to = parseValue(b, spec)
+      if (from > to) throw new Error(`${spec.name}: range ${range} runs backwards`)
+    } else {
+      from = parseValue(range, spec)
+      // "5/15" means every 15 starting at 5
+      to = stepText === undefined ? from : spec.max
+    }
+    for (let v = from; v <= to; v += step) values.add(v)
+  }
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim()
+  const expanded = MACROS[trimmed.toLowerCase()] ?? trimmed
+  const parts = expanded.split(/\s+/).filter(Boolean)
+  if (parts.length !== 5) throw new Error(`expected 5 fields (minute hour day month weekday), got ${parts.length}`)
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((p, i) => parseField(p, FIELDS[i]))
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // as in Vixie cron, a field starting with * (including */2) leaves the other day field in charge
+    domRestricted: !parts[2].startsWith('*'),
+    dowRestricted: !parts[4].startsWith('*'),
+  }
+}
+
+export function getCronError(expression: string): string | undefined {
+  if (!expression.trim()) return 'cron expression is empty'
+  try {
+    parseCron(expression)
+    return undefined
+  } catch (err) {
+    return (err as Error).message
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+// UTC first, then every zone the browser knows about
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : []
+  return ['UTC', ...zones.filter((z) => z !== 'UTC')]
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = formatters.get(timeZone)
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    })
+    formatters.set(timeZone, f)
+  }
+  return f
+}
+
+// Wall-clock time in the zone, encoded as if it were a UTC timestamp
+function toWallMs(instant: number, timeZone: string): number {
+  const p: Record<string, number> = {}
+  for (const { type, value } of partsFormatter(timeZone).formatToParts(instant)) p[type] = Number(value)
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute)
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const minute = Math.floor(instant / MINUTE_MS) * MINUTE_MS
+  return toWallMs(minute, timeZone) - minute
+}
+
+// Instant for a wall-clock time, or undefined when a DST change skips it
+function fromWallMs(wall: number, timeZone: string): number | undefined {
+  const first = wall - offsetAt(wall, timeZone)
+  const instant = wall - offsetAt(first, timeZone)
+  return toWallMs(instant, timeZone) === wall ? instant : undefined
+}
+
+function matchesDay(schedule: CronSchedule, day: Date): boolean {
+  if (!schedule.months.has(day.getUTCMonth() + 1)) return false
+  const dom = schedule.daysOfMonth.has(day.getUTCDate())
+  const dow = schedule.daysOfWeek.has(day.getUTCDay())
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow
+  return dom && dow
+}
+
+// Upcoming fire times strictly after `from`. Returns fewer than `count` when the
+// schedule (practically) never fires, e.g. "0 0 30 2 *".
+export function nextFireTimes(
+  expression: string | CronSchedule,
+  timeZone = 'UTC',
+  count = 5,
+  from: Date = new Date(),
+  until?: Date,
+): Date[] {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  const fromMs = from.getTime()
+  const startWall = toWallMs(Math.floor(fromMs / MINUTE_MS) * MINUTE_MS + MINUTE_MS, timeZone)
+  const out: Date[] = []
+
+  for (let day = startWall - (startWall % DAY_MS), i = 0; i < MAX_SCAN_DAYS; day += DAY_MS, i++) {
+    if (!matchesDay(schedule, new Date(day))) continue
+    // most days have no DST change, so one offset converts the whole day
+    const offset = offsetAt(day - offsetAt(day, timeZone), timeZone)
+    const steady = offset === offsetAt(day + DAY_MS - offset, timeZone)
+
+    for (const h of schedule.hours) {
+      for (const m of schedule.minutes) {
+        const wall = day + (h * 60 + m) * MINUTE_MS
+        if (wall < startWall) continue
+        const instant = steady ? wall - offset : fromWallMs(wall, timeZone)
+        if (instant === undefined || instant <= fromMs) continue
+        if (until && instant > until.getTime()) return out
+        out.push(new Date(instant))
+        if (out.length >= count) return out
+      }
+    }
+  }
+  return out
+}
+
+// Most runs the schedule makes in any 24h window over the next week
+export function maxRunsPerDay(expression: string, timeZone = 'UTC', from: Date = new Date()): number {
+  const until = new Date(from.getTime() + 8 * DAY_MS)
+  const times = nextFireTimes(expression, timeZone, 8 * 24 * 60, from, until).map((d) => d.getTime())
+  let best = 0
+  for (let start = 0, end = 0; start < times.length; start++) {
+    while (end < times.length && times[end] < times[start] + DAY_MS) end++
+    best = Math.max(best, end - start)
+  }
+  return best
+}
+
+const SHORT_DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const SHORT_MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+// Step of an evenly spaced list starting at 0 that wraps cleanly, e.g. 0,15,30,45 -> 15
+function evenStep(values: number[], size: number): number | undefined {
+  if (values.length < 2 || values[0] !== 0) return undefined
+  const step = values[1] - values[0]
+  if (size % step !== 0 || values.length !== size / step) return undefined
+  return values.every((v, i) => v === i * step) ? step : undefined
+}
+
+function describeTime(s: CronSchedule): string {
+  const everyMinute = s.minutes.length === 60
+  const everyHour = s.hours.length === 24
+  if (everyMinute && everyHour) return 'every minute'
+
+  const minuteStep = evenStep(s.minutes, 60)
+  if (minuteStep && everyHour) return `every ${minuteStep} minutes`
+  if (everyMinute) return `every minute during hour${s.hours.length === 1 ? '' : 's'} ${s.hours.map(pad).join(', ')}`
+
+  if (s.minutes.length === 1) {
+    const m = s.minutes[0]
+    if (everyHour) return m === 0 ? 'every hour' : `every hour at :${pad(m)}`
+    const hourStep = evenStep(s.hours, 24)
+    if (hourStep) return `every ${hourStep} hours at :${pad(m)}`
+    return `at ${s.hours.map((h) => `${pad(h)}:${pad(m)}`).join(', ')}`
+  }
+  return `at minutes ${s.minutes.join(', ')} past ${everyHour ? 'every hour' : `hours ${s.hours.map(pad).join(', ')}`}`
+}
+
+function describeWeekdays(days: Set<number>): string {
+  const sorted = [...days].sort((a, b) => a - b)
+  if (sorted.join() === '1,2,3,4,5') return 'on weekdays'
+  if (sorted.join() === '0,6') return 'on weekends'
+  return `on ${sorted.map((d) => SHORT_DAYS[d]).join(', ')}`
+}
+
+// Plain-English summary, e.g. "at 14:30 on weekdays"
+export function describeCron(expression: string): string {
+  const s = parseCron(expression)
+  const parts = [describeTime(s)]
+
+  const dom = [...s.daysOfMonth].sort((a, b) => a - b)
+  const domText = `on day${dom.length === 1 ? '' : 's'} ${dom.join(', ')} of the month`
+  if (s.domRestricted && s.dowRestricted) parts.push(`${domText} or ${describeWeekdays(s.daysOfWeek).slice(3)}`)
+  else {
+    // unrestricted fields can still narrow the days (*/2), and then both must match
+    if (dom.length < 31) parts.push(domText)
+    if (s.daysOfWeek.size < 7) parts.push(describeWeekdays(s.daysOfWeek))
+  }
+
+  if (s.months.size < 12) {
+    parts.push(`in ${[...s.months].sort((a, b) => a - b).map((m) => SHORT_MONTHS[m - 1]).join(', ')}`)
+  }
+  return parts.join(' ')
+}
+
+export function formatInTimeZone(date: Date, timeZone: string): string {
+  return date.toLocaleString(undefined, {
+    timeZone,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  })
+}
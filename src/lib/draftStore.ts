@@ -0,0 +1,57 @@
+import type { Edge, Node } from '@xyflow/react'
+import { DRAFTS_STORE, runRequest } from './localDb'
+
+export type StoredDraft = {
+  workflowId: string
+  definition: { nodes: Node[]; edges: Edge[] }
+  // when the draft was last written
+  savedAt: string
+  // server updatedAt the draft was based on, to detect edits made elsewhere
+  baseUpdatedAt?: string
+}
+
+// Comparable form of a definition, ignoring React Flow runtime fields (measured, selected, ...)
+export function definitionKey(definition: { nodes: Node[]; edges: Edge[] }): string {
+  return JSON.stringify({
+    nodes: definition.nodes.map((n) => {
+      const data = { ...((n.data as Record<string, unknown>) || {}) }
+      delete data.onDelete
+      return { id: n.id, position: n.position, data }
+    }),
+    edges: definition.edges.map((e) => ({
+      id: e.id,
+      source: e.source,
+      target: e.target,
+      sourceHandle: e.sourceHandle ?? undefined,
+      targetHandle: e.targetHandle ?? undefined,
+    })),
+  })
+}
+
+// Drafts are a best-effort safety net: storage failures are swallowed so the
+// editor keeps working without persistence.
+export async function loadDraft(workflowId: string): Promise<StoredDraft | undefined> {
+  try {
+    return (await runRequest<StoredDraft | undefined>(DRAFTS_STORE, 'readonly', (s) => s.get(workflowId))) ?? undefined
+  } catch {
+    return undefined
+  }
+}
+
+export async function saveDraft(draft: StoredDraft): Promise<void> {
+  try {
+    // strip functions (onDelete) that IndexedDB cannot clone
+    const definition = JSON.parse(JSON.stringify(draft.definition))
+    await runRequest(DRAFTS_STORE, 'readwrite', (s) => s.put({ ...draft, definition }))
+  } catch {
+    // ignore
+  }
+}
+
+export async function deleteDraft(workflowId: string): Promise<void> {
+  try {
+    await runRequest(DRAFTS_STORE, 'readwrite', (s) => s.delete(workflowId))
+  } catch {
+    // ignore
+  }
+}
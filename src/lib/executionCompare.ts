@@ -0,0 +1,182 @@
+import type { Node } from '@xyflow/react'
+import type { Execution, ExecutionLog, NodeExecutionState } from './api'
+import { getNodeKind } from './graph'
+import { isSameValue } from './graphDiff'
+
+// Compares two runs of the same workflow: `a` is the baseline (usually the older,
+// working run), `b` the one being investigated.
+
+export type JsonChange = {
+  // dotted path below the output, '' for the whole value
+  path: string
+  kind: 'added' | 'removed' | 'changed'
+  before: unknown
+  after: unknown
+}
+
+export type LogLineDiff = {
+  kind: 'same' | 'removed' | 'added'
+  // removed lines come from a, added from b, same lines carry both
+  a?: ExecutionLog
+  b?: ExecutionLog
+}
+
+export type NodeComparison = {
+  nodeId: string
+  type: string
+  a?: NodeExecutionState
+  b?: NodeExecutionState
+  durationA?: number
+  durationB?: number
+  statusChanged: boolean
+  outputChanges: JsonChange[]
+  logs: LogLineDiff[]
+  // anything differs apart from timings
+  changed: boolean
+}
+
+export type ExecutionComparison = {
+  nodes: NodeComparison[]
+  // lines not tied to a node (run started, finished, ...)
+  runLogs: LogLineDiff[]
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+// Leaf-level differences; objects are walked by key and arrays by index
+export function diffJson(before: unknown, after: unknown, path = ''): JsonChange[] {
+  if (isSameValue(before, after)) return []
+  if (before === undefined) return [{ path, kind: 'added', before, after }]
+  if (after === undefined) return [{ path, kind: 'removed', before, after }]
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    return keys.flatMap((k) => diffJson(before[k], after[k], joinPath(path, k)))
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const length = Math.max(before.length, after.length)
+    return Array.from({ length }, (_, i) => diffJson(before[i], after[i], joinPath(path, i))).flat()
+  }
+  return [{ path, kind: 'changed', before, after }]
+}
+
+function durationOf(state: NodeExecutionState | undefined): number | undefined {
+  if (!state?.startedAt || !state.finishedAt) return undefined
+  const ms = Date.parse(state.finishedAt) - Date.parse(state.startedAt)
+  return Number.isNaN(ms) ? undefined : ms
+}
+
+function logKey(log: ExecutionLog): string {
+  return `${log.level}\u0000${log.message}`
+}
+
+// Above this many cells the LCS table gets too big; lines are then paired by position
+const MAX_LCS_CELLS = 4_000_000
+
+// Line diff by longest common subsequence on level + message, ignoring timestamps
+export function diffLogLines(a: ExecutionLog[], b: ExecutionLog[]): LogLineDiff[] {
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    const out: LogLineDiff[] = []
+    for (let i = 0; i < Math.max(a.length, b.length); i += 1) {
+      if (a[i] && b[i] && logKey(a[i]) === logKey(b[i])) out.push({ kind: 'same', a: a[i], b: b[i] })
+      else {
+        if (a[i]) out.push({ kind: 'removed', a: a[i] })
+        if (b[i]) out.push({ kind: 'added', b: b[i] })
+      }
+    }
+    return out
+  }
+
+  const ka = a.map(logKey)
+  const kb = b.map(logKey)
+  const width = b.length + 1
+  // lcs[i * width + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((a.length + 1) * width)
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lcs[i * width + j] = ka[i] === kb[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+    }
+  }
+
+  const out: LogLineDiff[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (ka[i] === kb[j]) {
+      out.push({ kind: 'same', a: a[i], b: b[j] })
+      i += 1
+      j += 1
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      out.push({ kind: 'removed', a: a[i] })
+      i += 1
+    } else {
+      out.push({ kind: 'added', b: b[j] })
+      j += 1
+    }
+  }
+  for (; i < a.length; i += 1) out.push({ kind: 'removed', a: a[i] })
+  for (; j < b.length; j += 1) out.push({ kind: 'added', b: b[j] })
+  return out
+}
+
+function logsByNode(logs: ExecutionLog[]): Map<string, ExecutionLog[]> {
+  const map = new Map<string, ExecutionLog[]>()
+  for (const log of logs) {
+    const key = log.nodeId ?? ''
+    const list = map.get(key)
+    if (list) list.push(log)
+    else map.set(key, [log])
+  }
+  return map
+}
+
+// Nodes follow the workflow's order when its definition is known, then any extra
+// ids the runs mention (nodes deleted since).
+export function compareExecutions(a: Execution, b: Execution, definitionNodes: Node[] = []): ExecutionComparison {
+  const statusesA = a.nodeStatuses ?? {}
+  const statusesB = b.nodeStatuses ?? {}
+  const outputsA = a.nodeOutputs ?? {}
+  const outputsB = b.nodeOutputs ?? {}
+  const logsA = logsByNode(a.logs)
+  const logsB = logsByNode(b.logs)
+  const types = new Map(definitionNodes.map((n) => [n.id, getNodeKind(n)]))
+
+  const ids = [
+    ...new Set([
+      ...definitionNodes.map((n) => n.id),
+      ...Object.keys(statusesA),
+      ...Object.keys(statusesB),
+      ...Object.keys(outputsA),
+      ...Object.keys(outputsB),
+      ...[...logsA.keys(), ...logsB.keys()].filter(Boolean),
+    ]),
+  ]
+
+  const nodes = ids.map((nodeId): NodeComparison => {
+    const stateA = statusesA[nodeId]
+    const stateB = statusesB[nodeId]
+    const statusChanged = String(stateA?.status ?? '') !== String(stateB?.status ?? '') || (stateA?.error ?? '') !== (stateB?.error ?? '')
+    const outputChanges = diffJson(outputsA[nodeId], outputsB[nodeId])
+    const logs = diffLogLines(logsA.get(nodeId) ?? [], logsB.get(nodeId) ?? [])
+    return {
+      nodeId,
+      type: types.get(nodeId) ?? '',
+      a: stateA,
+      b: stateB,
+      durationA: durationOf(stateA),
+      durationB: durationOf(stateB),
+      statusChanged,
+      outputChanges,
+      logs,
+      changed: statusChanged || outputChanges.length > 0 || logs.some((l) => l.kind !== 'same'),
+    }
+  })
+
+  return { nodes, runLogs: diffLogLines(logsA.get('') ?? [], logsB.get('') ?? []) }
+}
@@ -0,0 +1,70 @@
+import type { Edge } from '@xyflow/react'
+import type { NodeExecutionState } from './api'
+
+// What the graph shows on a node for one execution
+export type NodeRunSummary = {
+  status: string
+  durationMs?: number
+  error?: string
+}
+
+export function getStatusColor(status: string) {
+  if (status === 'success') return '#157f3b'
+  if (status === 'failed') return '#b42318'
+  if (status === 'running') return '#175cd3'
+  if (status === 'queued' || status === 'pending') return '#4b5563'
+  if (status === 'skipped' || status === 'cancelled') return '#6b7280'
+  return '#374151'
+}
+
+export function getStatusBg(status: string) {
+  if (status === 'success') return '#ecfdf3'
+  if (status === 'failed') return '#fef3f2'
+  if (status === 'running') return '#eff8ff'
+  if (status === 'queued' || status === 'pending') return '#f3f4f6'
+  if (status === 'skipped' || status === 'cancelled') return '#f9fafb'
+  return '#f9fafb'
+}
+
+export function formatDurationMs(ms: number): string {
+  if (ms < 1000) return `${ms}ms`
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)}s`
+  return `${Math.floor(ms / 60000)}m ${Math.floor((ms % 60000) / 1000)}s`
+}
+
+// `end` defaults to now, for things still running
+export function formatDuration(start: string, end?: string): string {
+  const endDate = end ? new Date(end) : new Date()
+  return formatDurationMs(endDate.getTime() - new Date(start).getTime())
+}
+
+// Durations of running nodes count up to `now`
+export function buildNodeRuns(
+  nodeStatuses: Record<string, NodeExecutionState> | undefined,
+  now = Date.now(),
+): Record<string, NodeRunSummary> {
+  const runs: Record<string, NodeRunSummary> = {}
+  for (const [nodeId, state] of Object.entries(nodeStatuses ?? {})) {
+    const status = String(state?.status || 'pending')
+    const started = state?.startedAt ? Date.parse(state.startedAt) : NaN
+    const finished = state?.finishedAt ? Date.parse(state.finishedAt) : NaN
+    const live = status === 'running' && !Number.isNaN(started)
+    const end = Number.isNaN(finished) ? (live ? now : NaN) : finished
+    runs[nodeId] = {
+      status,
+      durationMs: Number.isNaN(started) || Number.isNaN(end) ? undefined : Math.max(end - started, 0),
+      error: state?.error || undefined,
+    }
+  }
+  return runs
+}
+
+const RAN = new Set(['running', 'success', 'failed'])
+
+// Edges the run actually travelled: both ends ran. A node that ran can only have been
+// reached through a source that finished, so this follows the executed path.
+export function getExecutedEdgeIds(edges: Edge[], nodeStatuses: Record<string, NodeExecutionState> | undefined): Set<string> {
+  const ran = (id: string) => RAN.has(String(nodeStatuses?.[id]?.status ?? ''))
+  const finished = (id: string) => nodeStatuses?.[id]?.status === 'success'
+  return new Set(edges.filter((e) => finished(e.source) && ran(e.target)).map((e) => e.id))
+}
@@ -0,0 +1,81 @@
+import { streamExecution, type ApiError, type Execution, type ExecutionStatus, type ExecutionStreamEvent } from './api'
+
+const FINISHED: ExecutionStatus[] = ['success', 'failed', 'cancelled']
+
+export function isExecutionFinished(status: ExecutionStatus | undefined): boolean {
+  return !!status && FINISHED.includes(status)
+}
+
+// Folds one stream event into the execution. Events that arrive before the snapshot
+// have nothing to apply to and are dropped; the snapshot already includes them.
+export function applyExecutionEvent(execution: Execution | undefined, event: ExecutionStreamEvent): Execution | undefined {
+  if (event.type === 'snapshot') return event.execution
+  if (!execution) return execution
+
+  switch (event.type) {
+    case 'log':
+      return { ...execution, logs: [...execution.logs, event.log] }
+    case 'node':
+      return { ...execution, nodeStatuses: { ...execution.nodeStatuses, [event.nodeId]: event.state } }
+    case 'output':
+      return { ...execution, nodeOutputs: { ...execution.nodeOutputs, [event.nodeId]: event.output } }
+    case 'status':
+      return {
+        ...execution,
+        status: event.status,
+        startedAt: event.startedAt ?? execution.startedAt,
+        finishedAt: event.finishedAt ?? execution.finishedAt,
+        updatedAt: event.updatedAt,
+      }
+  }
+}
+
+export type ExecutionSubscription = {
+  onEvent: (event: ExecutionStreamEvent) => void
+  // streaming is off for good (unsupported, or it kept dropping); poll instead
+  onFallback: (err: ApiError) => void
+}
+
+const MAX_RECONNECTS = 3
+const RECONNECT_DELAY_MS = 1000
+
+// Keeps a stream open until the execution finishes or the returned function is called.
+// Every connection starts with a snapshot, so reconnecting after a drop loses nothing.
+export function subscribeToExecution(executionId: string, { onEvent, onFallback }: ExecutionSubscription): () => void {
+  const controller = new AbortController()
+  let finished = false
+  let failures = 0
+
+  const connect = async () => {
+    try {
+      await streamExecution(
+        executionId,
+        (event) => {
+          failures = 0
+          if (event.type === 'snapshot') finished = isExecutionFinished(event.execution.status)
+          if (event.type === 'status') finished = isExecutionFinished(event.status)
+          onEvent(event)
+        },
+        controller.signal,
+      )
+      if (finished || controller.signal.aborted) return
+      failures += 1
+    } catch (err) {
+      if (controller.signal.aborted) return
+      const apiErr = err as ApiError
+      // answered but can't stream (no route, auth): retrying won't help
+      if (typeof apiErr?.status === 'number') return onFallback(apiErr)
+      failures += 1
+    }
+    if (failures > MAX_RECONNECTS) {
+      onFallback({ message: 'live updates disconnected', status: 0, code: 'stream_disconnected' })
+      return
+    }
+    window.setTimeout(() => {
+      if (!controller.signal.aborted) void connect()
+    }, RECONNECT_DELAY_MS * failures)
+  }
+
+  void connect()
+  return () => controller.abort()
+}
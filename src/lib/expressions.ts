@@ -0,0 +1,318 @@
+import type { Edge, Node } from '@xyflow/react'
+import { getAncestorIds, getNodeKind } from './graph'
+import { getNodeDoc, isDocumentedOutputPath } from './nodeDocumentation'
+import { getSampleOutput } from './pinnedOutput'
+
+// Template expressions embedded in node fields:
+//   {{n2.priceUsd}}                    short form: <nodeId>.<output field>...
+//   {{nodes.n2.output.priceUsd}}       long form used by the output picker
+//   {{all}} / {{workflowId}}           values the runtime fills in itself
+// Paths may index arrays with [0] or quote keys with ["some key"].
+
+export const TEMPLATE_KEYWORDS = ['all', 'workflowId'] as const
+
+export type TemplateSegment =
+  | { kind: 'text'; value: string; start: number; end: number }
+  // start/end include the braces; source is what's between them
+  | { kind: 'expr'; source: string; start: number; end: number }
+
+export type PathSegment = string | number
+
+export type TemplateExpr =
+  | { kind: 'ref'; nodeId: string; path: PathSegment[]; form: 'short' | 'nodes' }
+  | { kind: 'keyword'; name: string }
+
+export type DiagnosticSeverity = 'error' | 'warning'
+
+export type TemplateDiagnostic = {
+  severity: DiagnosticSeverity
+  message: string
+  // offsets into the template string
+  start: number
+  end: number
+}
+
+export function tokenizeTemplate(input: string): { segments: TemplateSegment[]; diagnostics: TemplateDiagnostic[] } {
+  const segments: TemplateSegment[] = []
+  const diagnostics: TemplateDiagnostic[] = []
+  let pos = 0
+
+  while (pos < input.length) {
+    const open = input.indexOf('{{', pos)
+    if (open === -1) {
+      segments.push({ kind: 'text', value: input.slice(pos), start: pos, end: input.length })
+      break
+    }
+    if (open > pos) segments.push({ kind: 'text', value: input.slice(pos, open), start: pos, end: open })
+
+    const close = input.indexOf('}}', open + 2)
+    const nested = input.indexOf('{{', open + 2)
+    if (close === -1) {
+      diagnostics.push({ severity: 'error', message: 'unclosed {{', start: open, end: input.length })
+      segments.push({ kind: 'text', value: input.slice(open), start: open, end: input.length })
+      break
+    }
+    if (nested !== -1 && nested < close) {
+      diagnostics.push({ severity: 'error', message: 'unexpected {{ inside an expression', start: nested, end: nested + 2 })
+      segments.push({ kind: 'text', value: input.slice(open, nested), start: open, end: nested })
+      pos = nested
+      continue
+    }
+
+    segments.push({ kind: 'expr', source: input.slice(open + 2, close), start: open, end: close + 2 })
+    pos = close + 2
+  }
+
+  return { segments, diagnostics }
+}
+
+function parsePath(source: string): { parts?: PathSegment[]; error?: string } {
+  const s = source.trim()
+  if (!s) return { error: 'empty expression' }
+
+  const parts: PathSegment[] = []
+  const name = /[A-Za-z0-9_$-]/
+  let i = 0
+
+  const readName = (): string | undefined => {
+    const from = i
+    while (i < s.length && name.test(s[i])) i += 1
+    return i > from ? s.slice(from, i) : undefined
+  }
+
+  const first = readName()
+  if (!first) return { error: `unexpected "${s[0]}" at the start of the expression` }
+  parts.push(first)
+
+  while (i < s.length) {
+    const ch = s[i]
+    if (ch === '.') {
+      i += 1
+      const next = readName()
+      if (!next) return { error: `expected a field name after "." in "${s}"` }
+      parts.push(next)
+    } else if (ch === '[') {
+      const rest = s.slice(i)
+      const index = /^\[(\d+)\]/.exec(rest)
+      const quoted = /^\[(["'])(.*?)\1\]/.exec(rest)
+      if (index) {
+        parts.push(Number(index[1]))
+        i += index[0].length
+      } else if (quoted) {
+        parts.push(quoted[2])
+        i += quoted[0].length
+      } else {
+        return { error: `invalid [...] access in "${s}"` }
+      }
+    } else {
+      // anything else (operators, spaces inside the path) isn't part of the grammar
+      return { error: `unexpected "${ch}" in "${s}"; expressions are paths like n1.price` }
+    }
+  }
+
+  return { parts }
+}
+
+export function parseExpression(source: string): { expr?: TemplateExpr; error?: string } {
+  const { parts, error } = parsePath(source)
+  if (!parts) return { error }
+
+  const [head, ...rest] = parts
+  if (head === 'nodes') {
+    const nodeId = rest[0]
+    if (typeof nodeId !== 'string') return { error: 'expected nodes.<nodeId>.output' }
+    if (rest.length > 1 && rest[1] !== 'output') return { error: `expected nodes.${nodeId}.output, got nodes.${nodeId}.${rest[1]}` }
+    return { expr: { kind: 'ref', nodeId, path: rest.slice(2), form: 'nodes' } }
+  }
+  if (rest.length === 0 && (TEMPLATE_KEYWORDS as readonly string[]).includes(String(head))) {
+    return { expr: { kind: 'keyword', name: String(head) } }
+  }
+  return { expr: { kind: 'ref', nodeId: String(head), path: rest, form: 'short' } }
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+// Same notation the docs use: parsed.tokenOutputMint, items[0].id
+function joinPath(path: PathSegment[]): string {
+  return path.map((p, i) => (typeof p === 'number' ? `[${p}]` : i === 0 ? p : `.${p}`)).join('')
+}
+
+// Walks the sample as far as it goes; a path is only unknown when an object the
+// sample does describe lacks the key (empty objects and leaves say nothing).
+function isKnownSamplePath(sample: unknown, path: PathSegment[]): boolean {
+  if (sample === undefined) return false
+  let cur: unknown = sample
+  for (const key of path) {
+    if (isPlainObject(cur)) {
+      if (Object.keys(cur).length === 0) return true
+      if (!(String(key) in cur)) return false
+      cur = cur[String(key)]
+    } else if (Array.isArray(cur) && typeof key === 'number') {
+      cur = cur[key]
+    } else {
+      return true
+    }
+  }
+  return true
+}
+
+export type TemplateContext = {
+  // the node whose field is being checked
+  nodeId: string
+  nodes: Node[]
+  edges: Edge[]
+}
+
+export function lintTemplate(input: string, ctx: TemplateContext): TemplateDiagnostic[] {
+  const { segments, diagnostics } = tokenizeTemplate(input)
+  const byId = new Map(ctx.nodes.map((n) => [n.id, n]))
+  let ancestors: Set<string> | undefined
+
+  for (const seg of segments) {
+    if (seg.kind !== 'expr') continue
+    const at = { start: seg.start, end: seg.end }
+    const { expr, error } = parseExpression(seg.source)
+    if (!expr) {
+      diagnostics.push({ severity: 'error', message: error ?? 'invalid expression', ...at })
+      continue
+    }
+    if (expr.kind === 'keyword') continue
+
+    const node = byId.get(expr.nodeId)
+    if (!node) {
+      const message =
+        expr.form === 'short' && expr.path.length === 0
+          ? `unknown node or variable "${expr.nodeId}"`
+          : `unknown node "${expr.nodeId}"`
+      diagnostics.push({ severity: 'error', message, ...at })
+      continue
+    }
+    if (expr.nodeId === ctx.nodeId) {
+      diagnostics.push({ severity: 'error', message: `${expr.nodeId} is this node; only upstream nodes can be referenced`, ...at })
+      continue
+    }
+    ancestors ??= getAncestorIds(ctx.nodeId, ctx.edges)
+    if (!ancestors.has(expr.nodeId)) {
+      diagnostics.push({
+        severity: 'error',
+        message: `${expr.nodeId} is not upstream of this node, so its output isn't available here`,
+        ...at,
+      })
+      continue
+    }
+
+    if (expr.path.length === 0) continue
+    // Docs list nested outputs as dotted names; anything below a documented output
+    // depends on runtime data. A pinned sample can add fields the docs don't list
+    // (e.g. http_request bodies), so a path that resolves in it is fine too.
+    const type = getNodeKind(node)
+    const documented = getNodeDoc(type)?.outputs ?? []
+    const sample = getSampleOutput(node)
+    const sampleFields = isPlainObject(sample) ? Object.keys(sample) : []
+    const path = joinPath(expr.path)
+    if (isDocumentedOutputPath(documented, path) || isKnownSamplePath(sample, expr.path)) continue
+    const outputs = [...new Set([...documented, ...sampleFields])]
+    if (outputs.length > 0) {
+      diagnostics.push({
+        severity: 'error',
+        message: `${type} (${expr.nodeId}) has no output "${path}"; it outputs ${outputs.join(', ')}`,
+        ...at,
+      })
+    }
+  }
+
+  return diagnostics
+}
+
+// Lints every string inside a field value (json fields hold nested objects).
+// Offsets only make sense for plain strings, so nested messages are prefixed with their key.
+export function lintTemplateValue(value: unknown, ctx: TemplateContext, keyPath = ''): TemplateDiagnostic[] {
+  if (typeof value === 'string') {
+    const diagnostics = lintTemplate(value, ctx)
+    return keyPath ? diagnostics.map((d) => ({ ...d, message: `${keyPath}: ${d.message}` })) : diagnostics
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((v, i) => lintTemplateValue(v, ctx, `${keyPath}[${i}]`))
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>).flatMap(([k, v]) =>
+      lintTemplateValue(v, ctx, keyPath ? `${keyPath}.${k}` : k),
+    )
+  }
+  return []
+}
+
+export type TemplateScope = {
+  // outputs keyed by node id
+  outputs: Record<string, unknown>
+  // values for keywords; keywords without a value are left as written
+  vars?: Record<string, unknown>
+}
+
+function readPath(value: unknown, path: PathSegment[]): unknown {
+  let current = value
+  for (const key of path) {
+    if (current === null || current === undefined) return undefined
+    current = (current as any)[key]
+  }
+  return current
+}
+
+function stringify(v: unknown): string {
+  if (v === undefined || v === null) return ''
+  return typeof v === 'object' ? JSON.stringify(v) : String(v)
+}
+
+// A template that is exactly one expression keeps the referenced value's type
+// (numbers stay numbers); anything else is interpolated into a string.
+export function evaluateTemplate(input: string, scope: TemplateScope): { value: unknown; errors: string[] } {
+  const { segments, diagnostics } = tokenizeTemplate(input)
+  const errors = diagnostics.map((d) => d.message)
+
+  const resolve = (seg: Extract<TemplateSegment, { kind: 'expr' }>): unknown => {
+    const { expr, error } = parseExpression(seg.source)
+    if (!expr) {
+      errors.push(error ?? 'invalid expression')
+      return undefined
+    }
+    if (expr.kind === 'keyword') {
+      const v = scope.vars?.[expr.name]
+      return v === undefined ? input.slice(seg.start, seg.end) : v
+    }
+    if (!(expr.nodeId in scope.outputs)) {
+      errors.push(`${expr.nodeId} has no output yet`)
+      return undefined
+    }
+    const v = readPath(scope.outputs[expr.nodeId], expr.path)
+    if (v === undefined) errors.push(`{{${seg.source.trim()}}} resolved to nothing`)
+    return v
+  }
+
+  if (segments.length === 1 && segments[0].kind === 'expr') {
+    return { value: resolve(segments[0]), errors }
+  }
+
+  const value = segments.map((seg) => (seg.kind === 'text' ? seg.value : stringify(resolve(seg)))).join('')
+  return { value, errors }
+}
+
+export function evaluateTemplateValue(value: unknown, scope: TemplateScope): { value: unknown; errors: string[] } {
+  if (typeof value === 'string') return evaluateTemplate(value, scope)
+  if (Array.isArray(value)) {
+    const results = value.map((v) => evaluateTemplateValue(v, scope))
+    return { value: results.map((r) => r.value), errors: results.flatMap((r) => r.errors) }
+  }
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {}
+    const errors: string[] = []
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) {
+      const r = evaluateTemplateValue(v, scope)
+      out[k] = r.value
+      errors.push(...r.errors)
+    }
+    return { value: out, errors }
+  }
+  return { value, errors: [] }
+}
@@ -0,0 +1,177 @@
+import type { Edge, Node } from '@xyflow/react'
+import { getNodeBranches } from './nodeDocumentation'
+
+// Horizontal distance between siblings hanging off different branches of the same node
+export const BRANCH_SPACING = 220
+
+export function getNodeKind(n: Node): string {
+  return String((n.data as any)?.type ?? '')
+}
+
+export function isTriggerNode(n: Node): boolean {
+  return getNodeKind(n).endsWith('_trigger')
+}
+
+// The branch an edge leaves from. Edges saved before branching existed carry no
+// sourceHandle and belong to the node's first branch.
+export function getEdgeBranch(edge: Edge, source: Node | undefined): string | undefined {
+  if (!source) return edge.sourceHandle ?? undefined
+  const branches = getNodeBranches(getNodeKind(source))
+  if (branches.length === 0) return undefined
+  return edge.sourceHandle ?? branches[0].id
+}
+
+// Horizontal offset for a child attached to `branchId` so true/false paths fan out
+export function getBranchOffset(source: Node, branchId: string | undefined): number {
+  const branches = getNodeBranches(getNodeKind(source))
+  const index = branches.findIndex((b) => b.id === branchId)
+  if (index === -1) return 0
+  return (index - (branches.length - 1) / 2) * BRANCH_SPACING
+}
+
+export function getTriggerNodes(nodes: Node[]): Node[] {
+  return nodes.filter(isTriggerNode)
+}
+
+// Node ids reachable from `startIds`, including the start nodes themselves
+function walkFrom(startIds: string[], edges: Array<{ source: string; target: string }>): Set<string> {
+  const reachable = new Set(startIds)
+  const queue = [...startIds]
+  while (queue.length) {
+    const current = queue.shift()!
+    for (const e of edges) {
+      if (e.source !== current) continue
+      if (!reachable.has(e.target)) {
+        reachable.add(e.target)
+        queue.push(e.target)
+      }
+    }
+  }
+  return reachable
+}
+
+// A workflow can have several triggers, each an entry point into the same graph: a
+// node counts as reachable when any trigger leads to it.
+export function getReachableNodeIds(nodes: Node[], edges: Edge[]): Set<string> {
+  const triggers = getTriggerNodes(nodes)
+  if (triggers.length === 0) return new Set(nodes.map((n) => n.id))
+  return walkFrom(triggers.map((t) => t.id), edges)
+}
+
+// What a single trigger starts when it fires
+export function getNodeIdsStartedBy(triggerId: string, edges: Edge[]): Set<string> {
+  return walkFrom([triggerId], edges)
+}
+
+// `nodeId` and every node after it, i.e. what runs again when a run resumes there
+export function getDownstreamIds(nodeId: string, edges: Array<{ source: string; target: string }>): Set<string> {
+  return walkFrom([nodeId], edges)
+}
+
+// Every node with a path into `nodeId`, i.e. whose output exists by the time it runs
+export function getAncestorIds(nodeId: string, edges: Array<{ source: string; target: string }>): Set<string> {
+  const ancestors = new Set<string>()
+  const queue = [nodeId]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const edge of edges) {
+      if (edge.target === current && !ancestors.has(edge.source)) {
+        ancestors.add(edge.source)
+        queue.push(edge.source)
+      }
+    }
+  }
+  return ancestors
+}
+
+// Workflows run top to bottom, so an edge is only allowed when its target can't
+// already reach its source. Repeating a step is the retry node's job, not a loop.
+export function findCyclePath(
+  source: string,
+  target: string,
+  edges: Array<{ source: string; target: string }>,
+): string[] | undefined {
+  if (source === target) return [source, source]
+  // breadth-first from target, remembering how each node was reached
+  const via = new Map<string, string>([[target, '']])
+  const queue = [target]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const edge of edges) {
+      if (edge.source !== current || via.has(edge.target)) continue
+      via.set(edge.target, current)
+      if (edge.target === source) {
+        const path = [source]
+        for (let n = current; n; n = via.get(n)!) path.unshift(n)
+        return [source, ...path]
+      }
+      queue.push(edge.target)
+    }
+  }
+  return undefined
+}
+
+// Node ids that sit on at least one loop
+export function getCycleNodeIds(edges: Array<{ source: string; target: string }>): Set<string> {
+  const onCycle = new Set<string>()
+  for (const id of new Set(edges.map((e) => e.source))) {
+    if (getAncestorIds(id, edges).has(id)) onCycle.add(id)
+  }
+  return onCycle
+}
+
+export type OpenSlot = {
+  nodeId: string
+  // set for branch nodes: the branch with nothing connected yet
+  sourceHandle?: string
+}
+
+// Places where the next node can be appended: nodes reachable from any trigger with
+// no outgoing edge, plus every unconnected branch of reachable branch nodes.
+// Ordered top-to-bottom, left-to-right; the last slot is the end of the main flow.
+export function getOpenSlots(nodes: Node[], edges: Edge[]): OpenSlot[] {
+  const reachable = getReachableNodeIds(nodes, edges)
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+
+  const usedBranches = new Map<string, Set<string | undefined>>()
+  for (const e of edges) {
+    if (!reachable.has(e.source) || !reachable.has(e.target)) continue
+    const used = usedBranches.get(e.source) ?? new Set<string | undefined>()
+    used.add(getEdgeBranch(e, byId.get(e.source)))
+    usedBranches.set(e.source, used)
+  }
+
+  const ordered = nodes
+    .filter((n) => reachable.has(n.id))
+    .sort((a, b) => {
+      const ay = (a.position as any)?.y ?? 0
+      const by = (b.position as any)?.y ?? 0
+      if (ay !== by) return ay - by
+      const ax = (a.position as any)?.x ?? 0
+      const bx = (b.position as any)?.x ?? 0
+      return ax - bx
+    })
+
+  const slots: OpenSlot[] = []
+  for (const n of ordered) {
+    const used = usedBranches.get(n.id)
+    const branches = getNodeBranches(getNodeKind(n))
+    if (branches.length === 0) {
+      if (!used) slots.push({ nodeId: n.id })
+      continue
+    }
+    for (const b of branches) {
+      if (!used?.has(b.id)) slots.push({ nodeId: n.id, sourceHandle: b.id })
+    }
+  }
+  return slots
+}
+
+// Deepest open slot across all triggers; for a branch node the main flow continues on
+// its first open branch.
+export function getMainFlowTerminal(nodes: Node[], edges: Edge[]): OpenSlot | undefined {
+  const slots = getOpenSlots(nodes, edges)
+  const last = slots[slots.length - 1]
+  if (!last) return undefined
+  return slots.find((s) => s.nodeId === last.nodeId)
+}
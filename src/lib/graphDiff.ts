@@ -0,0 +1,231 @@
+import type { Edge, Node } from '@xyflow/react'
+import { getNodeKind } from './graph'
+
+export type Definition = { nodes: Node[]; edges: Edge[] }
+
+// Workflow.definition is untyped on the wire
+export function readDefinition(definition: unknown): Definition {
+  const def = definition as any
+  return {
+    nodes: Array.isArray(def?.nodes) ? (def.nodes as Node[]) : [],
+    edges: Array.isArray(def?.edges) ? (def.edges as Edge[]) : [],
+  }
+}
+
+export type FieldChange = { field: string; before: unknown; after: unknown }
+
+export type NodeChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export type NodeDiff = {
+  id: string
+  type: string
+  status: NodeChangeStatus
+  before?: Node
+  after?: Node
+  changes: FieldChange[]
+}
+
+export type DefinitionDiff = {
+  nodes: NodeDiff[]
+  addedEdges: Edge[]
+  removedEdges: Edge[]
+}
+
+// Key-order independent JSON so {a,b} and {b,a} compare equal
+function stableStringify(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(stableStringify).join(',')}]`
+  if (v && typeof v === 'object') {
+    const entries = Object.entries(v as Record<string, unknown>)
+      .filter(([, val]) => val !== undefined && typeof val !== 'function')
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, val]) => `${JSON.stringify(k)}:${stableStringify(val)}`).join(',')}}`
+  }
+  return JSON.stringify(v ?? null)
+}
+
+export function isSameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b)
+}
+
+function nodeData(n: Node | undefined): Record<string, unknown> {
+  const data = { ...((n?.data as Record<string, unknown>) || {}) }
+  delete data.onDelete
+  return data
+}
+
+function nodePosition(n: Node | undefined) {
+  return n ? { x: Math.round(n.position?.x ?? 0), y: Math.round(n.position?.y ?? 0) } : undefined
+}
+
+// Field-level changes between two versions of a node; moves show up as `position`.
+export function diffNodeFields(before: Node | undefined, after: Node | undefined): FieldChange[] {
+  const a = nodeData(before)
+  const b = nodeData(after)
+  const changes: FieldChange[] = []
+  for (const field of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if (!isSameValue(a[field], b[field])) changes.push({ field, before: a[field], after: b[field] })
+  }
+  const pa = nodePosition(before)
+  const pb = nodePosition(after)
+  if (before && after && !isSameValue(pa, pb)) changes.push({ field: 'position', before: pa, after: pb })
+  return changes
+}
+
+export function getDiffStatusColor(status: NodeChangeStatus): string {
+  switch (status) {
+    case 'added':
+      return 'var(--color-success)'
+    case 'removed':
+      return 'var(--color-error)'
+    case 'changed':
+      return 'var(--color-warning)'
+    default:
+      return 'var(--color-text-subtle)'
+  }
+}
+
+// Short single-line rendering of a field value for diff listings
+export function formatDiffValue(v: unknown): string {
+  if (v === undefined) return '—'
+  const text = typeof v === 'string' ? v : JSON.stringify(v)
+  return text.length > 48 ? `${text.slice(0, 45)}...` : text
+}
+
+export function edgeKey(e: Edge): string {
+  return `${e.source}:${e.sourceHandle ?? ''}->${e.target}`
+}
+
+function nodeStatus(before: Node | undefined, after: Node | undefined, changes: FieldChange[]): NodeChangeStatus {
+  if (!before && !after) return 'unchanged'
+  if (!before) return 'added'
+  if (!after) return 'removed'
+  return changes.length ? 'changed' : 'unchanged'
+}
+
+function nodeType(...candidates: Array<Node | undefined>): string {
+  for (const n of candidates) if (n) return getNodeKind(n)
+  return ''
+}
+
+export function diffDefinitions(before: Definition, after: Definition): DefinitionDiff {
+  const beforeById = new Map(before.nodes.map((n) => [n.id, n]))
+  const afterById = new Map(after.nodes.map((n) => [n.id, n]))
+  const ids = [...new Set([...before.nodes.map((n) => n.id), ...after.nodes.map((n) => n.id)])]
+
+  const nodes = ids.map((id): NodeDiff => {
+    const b = beforeById.get(id)
+    const a = afterById.get(id)
+    const changes = diffNodeFields(b, a)
+    return { id, type: nodeType(a, b), status: nodeStatus(b, a, changes), before: b, after: a, changes }
+  })
+
+  const beforeEdges = new Set(before.edges.map(edgeKey))
+  const afterEdges = new Set(after.edges.map(edgeKey))
+  return {
+    nodes,
+    addedEdges: after.edges.filter((e) => !beforeEdges.has(edgeKey(e))),
+    removedEdges: before.edges.filter((e) => !afterEdges.has(edgeKey(e))),
+  }
+}
+
+export type MergeSide = 'mine' | 'theirs'
+
+export type NodeConflict = {
+  id: string
+  type: string
+  mine?: Node
+  theirs?: Node
+  // each side compared to the version both started from
+  mineStatus: NodeChangeStatus
+  theirsStatus: NodeChangeStatus
+  mineChanges: FieldChange[]
+  theirsChanges: FieldChange[]
+  // both sides touched the node; otherwise the default choice is the side that changed it
+  conflicting: boolean
+  defaultChoice: MergeSide
+}
+
+// Nodes that differ between my draft and the server copy, classified against `base`
+// (the definition this editor loaded) so one-sided edits can merge automatically.
+export function buildNodeConflicts(base: Definition, mine: Definition, theirs: Definition): NodeConflict[] {
+  const baseById = new Map(base.nodes.map((n) => [n.id, n]))
+  const mineById = new Map(mine.nodes.map((n) => [n.id, n]))
+  const theirsById = new Map(theirs.nodes.map((n) => [n.id, n]))
+  const ids = [...new Set([...mine.nodes.map((n) => n.id), ...theirs.nodes.map((n) => n.id)])]
+
+  const conflicts: NodeConflict[] = []
+  for (const id of ids) {
+    const b = baseById.get(id)
+    const m = mineById.get(id)
+    const t = theirsById.get(id)
+    if (m && t && diffNodeFields(m, t).length === 0) continue
+
+    const mineChanges = diffNodeFields(b, m)
+    const theirsChanges = diffNodeFields(b, t)
+    const mineStatus = nodeStatus(b, m, mineChanges)
+    const theirsStatus = nodeStatus(b, t, theirsChanges)
+    const conflicting = mineStatus !== 'unchanged' && theirsStatus !== 'unchanged'
+    conflicts.push({
+      id,
+      type: nodeType(m, t, b),
+      mine: m,
+      theirs: t,
+      mineStatus,
+      theirsStatus,
+      mineChanges,
+      theirsChanges,
+      conflicting,
+      defaultChoice: mineStatus === 'unchanged' ? 'theirs' : 'mine',
+    })
+  }
+  return conflicts
+}
+
+// Applies per-node choices (missing choices use the default). Edges merge three-way:
+// an edge only one side has survives if that side added it, and is dropped if the
+// other side removed it. Edges to nodes that didn't survive are dropped.
+export function mergeDefinitions(
+  base: Definition,
+  mine: Definition,
+  theirs: Definition,
+  choices: Record<string, MergeSide>,
+): Definition {
+  const conflicts = new Map(buildNodeConflicts(base, mine, theirs).map((c) => [c.id, c]))
+  const theirsById = new Map(theirs.nodes.map((n) => [n.id, n]))
+  const mineIds = new Set(mine.nodes.map((n) => n.id))
+
+  const pick = (id: string, fallback: Node | undefined): Node | undefined => {
+    const c = conflicts.get(id)
+    if (!c) return fallback
+    return (choices[id] ?? c.defaultChoice) === 'mine' ? c.mine : c.theirs
+  }
+
+  const nodes: Node[] = []
+  for (const n of mine.nodes) {
+    const next = pick(n.id, n)
+    if (next) nodes.push(next)
+  }
+  for (const n of theirs.nodes) {
+    if (mineIds.has(n.id)) continue
+    const next = pick(n.id, theirsById.get(n.id))
+    if (next) nodes.push(next)
+  }
+
+  const kept = new Set(nodes.map((n) => n.id))
+  const baseKeys = new Set(base.edges.map(edgeKey))
+  const mineKeys = new Set(mine.edges.map(edgeKey))
+  const theirsKeys = new Set(theirs.edges.map(edgeKey))
+  const edges: Edge[] = []
+  const seen = new Set<string>()
+  for (const e of [...mine.edges, ...theirs.edges]) {
+    const key = edgeKey(e)
+    if (seen.has(key)) continue
+    seen.add(key)
+    const inBoth = mineKeys.has(key) && theirsKeys.has(key)
+    if (!inBoth && baseKeys.has(key)) continue
+    if (!kept.has(e.source) || !kept.has(e.target)) continue
+    edges.push(e)
+  }
+
+  return { nodes, edges }
+}
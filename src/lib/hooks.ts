@@ -1,3 +1,4 @@
+import { useEffect, useState } from 'react'
 import useSWR, { mutate } from 'swr'
 import {
   getWorkflow,
@@ -12,6 +13,7 @@ import {
   type ExecutionSummary,
   type Execution,
 } from './api'
+import { applyExecutionEvent, isExecutionFinished, subscribeToExecution } from './executionStream'
 
 const defaultConfig = {
   revalidateOnFocus: false,
@@ -83,7 +85,13 @@ export function useWorkflowExecutions(workflowId: string | undefined) {
   return { executions: data ?? [], error, isLoading, revalidate }
 }
 
+// How often a run in progress is refetched once the stream has given up
+const EXECUTION_POLL_INTERVAL = 1000
+
+// While the run is in progress, changes stream in; polling only takes over when the
+// server can't stream.
 export function useExecution(executionId: string | undefined) {
+  const [streamFailed, setStreamFailed] = useState(false)
   const { data, error, isLoading, mutate: revalidate } = useSWR<Execution>(
     executionId ? `/executions/${executionId}` : null,
     async () => {
@@ -91,9 +99,35 @@ export function useExecution(executionId: string | undefined) {
       const res = await getExecution(executionId)
       return res.execution
     },
-    { ...defaultConfig, refreshInterval: 10000 }
+    {
+      ...defaultConfig,
+      // deduping would otherwise stretch the polling to the default 10s
+      dedupingInterval: EXECUTION_POLL_INTERVAL,
+      refreshInterval: (latest) => (streamFailed && latest && !isExecutionFinished(latest.status) ? EXECUTION_POLL_INTERVAL : 0),
+    }
   )
-  return { execution: data, error, isLoading, revalidate }
+  const inProgress = !!data && !isExecutionFinished(data.status)
+
+  useEffect(() => {
+    setStreamFailed(false)
+  }, [executionId])
+
+  useEffect(() => {
+    if (!executionId || !inProgress || streamFailed) return
+    return subscribeToExecution(executionId, {
+      onEvent: (event) => void revalidate((prev) => applyExecutionEvent(prev, event), { revalidate: false }),
+      onFallback: () => setStreamFailed(true),
+    })
+  }, [executionId, inProgress, streamFailed, revalidate])
+
+  return {
+    execution: data,
+    error,
+    isLoading,
+    revalidate,
+    streaming: inProgress && !streamFailed,
+    polling: inProgress && streamFailed,
+  }
 }
 
 // Cache invalidation helpers
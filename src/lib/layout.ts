@@ -0,0 +1,193 @@
+import type { Edge, Node } from '@xyflow/react'
+import { getEdgeBranch, getNodeKind, isTriggerNode } from './graph'
+import { getNodeBranches } from './nodeDocumentation'
+
+export type LayoutOptions = {
+  // vertical distance between layers
+  layerGap?: number
+  // minimum horizontal distance between nodes in the same layer
+  nodeGap?: number
+}
+
+type Point = { x: number; y: number }
+
+const DEFAULT_LAYER_GAP = 150
+const DEFAULT_NODE_GAP = 220
+const SWEEPS = 4
+
+function posOf(n: Node): Point {
+  return { x: (n.position as any)?.x ?? 0, y: (n.position as any)?.y ?? 0 }
+}
+
+// Natural order for ids like n2 < n10 so ties resolve the same way every run
+function compareIds(a: string, b: string): number {
+  return a.localeCompare(b, undefined, { numeric: true })
+}
+
+// Edges that close a cycle are ignored for layering (DFS from roots in stable order).
+function findBackEdges(nodes: Node[], outgoing: Map<string, Edge[]>): Set<Edge> {
+  const back = new Set<Edge>()
+  const state = new Map<string, 'visiting' | 'done'>()
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting')
+    for (const e of outgoing.get(id) ?? []) {
+      const s = state.get(e.target)
+      if (s === 'visiting') back.add(e)
+      else if (!s) visit(e.target)
+    }
+    state.set(id, 'done')
+  }
+
+  for (const n of nodes) if (!state.has(n.id)) visit(n.id)
+  return back
+}
+
+// Layered (Sugiyama-style) layout for the workflow DAG:
+// 1. longest-path layering from the roots, 2. barycenter ordering within layers
+// with branch-aware bias (true left, false right), 3. x placement under parents
+// without overlap. Returns new positions keyed by node id, anchored so the first
+// root keeps its current position.
+export function layoutGraph(nodes: Node[], edges: Edge[], options: LayoutOptions = {}): Record<string, Point> {
+  const layerGap = options.layerGap ?? DEFAULT_LAYER_GAP
+  const nodeGap = options.nodeGap ?? DEFAULT_NODE_GAP
+  if (nodes.length === 0) return {}
+
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+
+  // Stable base order: triggers first, then current position, then id
+  const ordered = [...nodes].sort((a, b) => {
+    const ta = isTriggerNode(a) ? 0 : 1
+    const tb = isTriggerNode(b) ? 0 : 1
+    if (ta !== tb) return ta - tb
+    const pa = posOf(a)
+    const pb = posOf(b)
+    if (pa.y !== pb.y) return pa.y - pb.y
+    if (pa.x !== pb.x) return pa.x - pb.x
+    return compareIds(a.id, b.id)
+  })
+
+  const validEdges = edges.filter((e) => byId.has(e.source) && byId.has(e.target) && e.source !== e.target)
+  const outgoingAll = new Map<string, Edge[]>()
+  for (const e of validEdges) outgoingAll.set(e.source, [...(outgoingAll.get(e.source) ?? []), e])
+
+  const back = findBackEdges(ordered, outgoingAll)
+  const dagEdges = validEdges.filter((e) => !back.has(e))
+
+  const incoming = new Map<string, Edge[]>()
+  const outgoing = new Map<string, Edge[]>()
+  for (const e of dagEdges) {
+    incoming.set(e.target, [...(incoming.get(e.target) ?? []), e])
+    outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e])
+  }
+
+  // 1. Longest-path layering (Kahn order keeps it linear)
+  const layerOf = new Map<string, number>()
+  const indegree = new Map(ordered.map((n) => [n.id, incoming.get(n.id)?.length ?? 0]))
+  const queue = ordered.filter((n) => indegree.get(n.id) === 0).map((n) => n.id)
+  for (const id of queue) layerOf.set(id, 0)
+  while (queue.length) {
+    const id = queue.shift()!
+    for (const e of outgoing.get(id) ?? []) {
+      layerOf.set(e.target, Math.max(layerOf.get(e.target) ?? 0, (layerOf.get(id) ?? 0) + 1))
+      indegree.set(e.target, (indegree.get(e.target) ?? 0) - 1)
+      if (indegree.get(e.target) === 0) queue.push(e.target)
+    }
+  }
+
+  const layers: string[][] = []
+  for (const n of ordered) {
+    const layer = layerOf.get(n.id) ?? 0
+    ;(layers[layer] ??= []).push(n.id)
+  }
+
+  // Branch bias nudges children of a branch node toward their handle's side
+  const branchBias = (e: Edge): number => {
+    const source = byId.get(e.source)
+    if (!source) return 0
+    const branches = getNodeBranches(getNodeKind(source))
+    if (branches.length < 2) return 0
+    const index = branches.findIndex((b) => b.id === getEdgeBranch(e, source))
+    return index === -1 ? 0 : (index - (branches.length - 1) / 2) * 0.5
+  }
+
+  // 2. Barycenter ordering, alternating down and up sweeps
+  const orderIndex = new Map<string, number>()
+  for (const layer of layers) layer?.forEach((id, i) => orderIndex.set(id, i))
+
+  const sortLayer = (layer: string[], neighbours: (id: string) => Array<{ id: string; bias: number }>) => {
+    const bary = new Map<string, number>()
+    for (const id of layer) {
+      const ns = neighbours(id)
+      if (ns.length === 0) continue
+      bary.set(id, ns.reduce((acc, n) => acc + (orderIndex.get(n.id) ?? 0) + n.bias, 0) / ns.length)
+    }
+    layer.sort((a, b) => {
+      const ba = bary.get(a) ?? orderIndex.get(a) ?? 0
+      const bb = bary.get(b) ?? orderIndex.get(b) ?? 0
+      if (ba !== bb) return ba - bb
+      // ties keep the order from the previous sweep
+      return (orderIndex.get(a) ?? 0) - (orderIndex.get(b) ?? 0)
+    })
+    layer.forEach((id, i) => orderIndex.set(id, i))
+  }
+
+  for (let sweep = 0; sweep < SWEEPS; sweep += 1) {
+    if (sweep % 2 === 0) {
+      for (let l = 1; l < layers.length; l += 1) {
+        if (!layers[l]) continue
+        sortLayer(layers[l], (id) => (incoming.get(id) ?? []).map((e) => ({ id: e.source, bias: branchBias(e) })))
+      }
+    } else {
+      for (let l = layers.length - 2; l >= 0; l -= 1) {
+        if (!layers[l]) continue
+        sortLayer(layers[l], (id) => (outgoing.get(id) ?? []).map((e) => ({ id: e.target, bias: -branchBias(e) })))
+      }
+    }
+  }
+
+  // 3. Coordinates: each node wants to sit under its parents, then overlaps are pushed apart
+  const xOf = new Map<string, number>()
+  layers.forEach((layer, l) => {
+    if (!layer) return
+    const desired = layer.map((id, i) => {
+      const parents = incoming.get(id) ?? []
+      if (l === 0 || parents.length === 0) return i * nodeGap
+      const sum = parents.reduce((acc, e) => acc + (xOf.get(e.source) ?? 0) + branchBias(e) * nodeGap, 0)
+      return sum / parents.length
+    })
+
+    const placed: number[] = []
+    desired.forEach((x, i) => {
+      placed[i] = i === 0 ? x : Math.max(x, placed[i - 1] + nodeGap)
+    })
+
+    // Re-center the pushed run around what the layer wanted
+    const drift = desired.reduce((acc, x, i) => acc + (x - placed[i]), 0) / desired.length
+    layer.forEach((id, i) => xOf.set(id, placed[i] + drift))
+  })
+
+  const positions: Record<string, Point> = {}
+  layers.forEach((layer, l) => {
+    layer?.forEach((id) => {
+      positions[id] = { x: xOf.get(id) ?? 0, y: l * layerGap }
+    })
+  })
+
+  // Anchor on the first root so tidying doesn't move the graph around the canvas
+  const anchorId = layers[0]?.[0]
+  const anchor = anchorId ? byId.get(anchorId) : undefined
+  if (anchorId && anchor) {
+    const from = positions[anchorId]
+    const to = posOf(anchor)
+    for (const id of Object.keys(positions)) {
+      positions[id] = { x: Math.round(positions[id].x - from.x + to.x), y: Math.round(positions[id].y - from.y + to.y) }
+    }
+  }
+
+  return positions
+}
+
+export function applyLayout(nodes: Node[], positions: Record<string, Point>): Node[] {
+  return nodes.map((n) => (positions[n.id] ? { ...n, position: positions[n.id] } : n))
+}
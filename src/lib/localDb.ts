@@ -0,0 +1,49 @@
+// Browser-local persistence (IndexedDB) shared by editor drafts and version history.
+const DB_NAME = 'cyphersol'
+const DB_VERSION = 2
+
+export const DRAFTS_STORE = 'drafts'
+export const VERSIONS_STORE = 'versions'
+
+let dbPromise: Promise<IDBDatabase> | undefined
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('indexedDB unavailable'))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      if (!db.objectStoreNames.contains(DRAFTS_STORE)) db.createObjectStore(DRAFTS_STORE, { keyPath: 'workflowId' })
+      if (!db.objectStoreNames.contains(VERSIONS_STORE)) {
+        const versions = db.createObjectStore(VERSIONS_STORE, { keyPath: 'id', autoIncrement: true })
+        versions.createIndex('workflowId', 'workflowId')
+      }
+    }
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+  // allow a retry on the next call (private mode, blocked upgrade, ...)
+  dbPromise.catch(() => {
+    dbPromise = undefined
+  })
+  return dbPromise
+}
+
+export function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest,
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const req = fn(db.transaction(storeName, mode).objectStore(storeName))
+        req.onsuccess = () => resolve(req.result as T)
+        req.onerror = () => reject(req.error)
+      }),
+  )
+}
@@ -0,0 +1,85 @@
+import type { ExecutionLog } from './api'
+
+export const LOG_LEVELS: ExecutionLog['level'][] = ['info', 'warn', 'error']
+
+export type LogFilter = {
+  levels: ExecutionLog['level'][]
+  // undefined means every node, '' means lines not tied to a node
+  nodeId?: string
+  query: string
+  regex: boolean
+}
+
+export type LogTimeMode = 'absolute' | 'relative'
+
+// A log line that passed the filter, with its position in the full log
+export type LogEntry = { log: ExecutionLog; index: number }
+
+// Case-insensitive either way; a bad pattern matches nothing and reports why
+function buildMatcher(query: string, regex: boolean): { test: (text: string) => boolean; error?: string } {
+  if (!query) return { test: () => true }
+  if (!regex) {
+    const needle = query.toLowerCase()
+    return { test: (text) => text.toLowerCase().includes(needle) }
+  }
+  try {
+    const re = new RegExp(query, 'i')
+    return { test: (text) => re.test(text) }
+  } catch (err) {
+    return { test: () => false, error: (err as Error).message }
+  }
+}
+
+// Search covers the message, the node id and the level
+export function filterLogs(logs: ExecutionLog[], filter: LogFilter): { entries: LogEntry[]; error?: string } {
+  const matcher = buildMatcher(filter.query, filter.regex)
+  const entries: LogEntry[] = []
+  logs.forEach((log, index) => {
+    if (!filter.levels.includes(log.level)) return
+    if (filter.nodeId !== undefined && (log.nodeId ?? '') !== filter.nodeId) return
+    if (!matcher.test(`${log.message} ${log.nodeId ?? ''} ${log.level}`)) return
+    entries.push({ log, index })
+  })
+  return { entries, error: matcher.error }
+}
+
+// Relative times count from `start` (the run's start, or its first line): +1.234s, +2m 03.5s
+export function formatLogTime(timestamp: string, mode: LogTimeMode, start?: string): string {
+  const at = new Date(timestamp)
+  if (mode === 'absolute' || !start) return at.toLocaleString()
+  const ms = at.getTime() - new Date(start).getTime()
+  const sign = ms < 0 ? '-' : '+'
+  const abs = Math.abs(ms)
+  if (abs < 60000) return `${sign}${(abs / 1000).toFixed(3)}s`
+  const minutes = Math.floor(abs / 60000)
+  const seconds = ((abs % 60000) / 1000).toFixed(1).padStart(4, '0')
+  return `${sign}${minutes}m ${seconds}s`
+}
+
+export function logsToNdjson(logs: ExecutionLog[]): string {
+  return logs.map((l) => JSON.stringify(l)).join('\n') + (logs.length ? '\n' : '')
+}
+
+function csvCell(value: string): string {
+  // a leading = + - @ makes spreadsheets evaluate the cell
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function logsToCsv(logs: ExecutionLog[]): string {
+  const rows = [['timestamp', 'level', 'nodeId', 'message'], ...logs.map((l) => [l.timestamp, l.level, l.nodeId ?? '', l.message])]
+  return rows.map((r) => r.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+export function downloadLogs(executionId: string, logs: ExecutionLog[], format: 'ndjson' | 'csv') {
+  const text = format === 'csv' ? logsToCsv(logs) : logsToNdjson(logs)
+  const blob = new Blob([text], { type: format === 'csv' ? 'text/csv' : 'application/x-ndjson' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = `execution-${executionId.slice(0, 8)}-logs.${format}`
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
@@ -1,5 +1,72 @@
+import type { MetaResponse } from './api'
+import { getLocalTimeZone, listTimeZones } from './cron'
+import { SOL_MINT, USDC_MINT } from './solana'
+
 export type NodeCategory = 'trigger' | 'action' | 'logic' | 'data' | 'market' | 'solana' | 'notify' | 'calc'
 
+export type NodeFieldType =
+  | 'string' // plain text input
+  | 'number' // numeric input
+  | 'select' // fixed list of options
+  | 'output' // NodeOutputSelector picking from upstream nodes
+  | 'message' // discord-style select-from-outputs / custom message toggle
+  | 'json' // json or template, parsed on blur
+  | 'credential' // stored credential id
+  | 'workflow' // another workflow of the same account
+
+export type NodeFieldOption = {
+  value: string
+  label: string
+}
+
+export type NodeField = {
+  name: string
+  label: string
+  type: NodeFieldType
+  default?: unknown
+  placeholder?: string
+  hint?: string
+  required?: boolean
+  // accept {{...}} references in place of a literal value
+  allowTemplate?: boolean
+  min?: number
+  max?: number
+  // min is exclusive (value must be > min)
+  exclusiveMin?: boolean
+  step?: number
+  unit?: string
+  options?: NodeFieldOption[]
+  // select values are stored as numbers
+  numeric?: boolean
+  multiline?: boolean
+  mono?: boolean
+  // holds a Solana address (one per line when multiline); mints get token search
+  address?: 'mint' | 'wallet'
+  forceInput?: boolean
+  // credential provider to filter by; omit to allow any credential
+  provider?: string
+  // sibling fields reset when this one changes
+  clears?: string[]
+  visibleIf?: (data: Record<string, unknown>) => boolean
+  // value to check when the field is empty, for definitions that saved it under an older name
+  legacyValue?: (data: Record<string, unknown>) => unknown
+  // runtime cap reported by /meta
+  metaMax?: (meta: MetaResponse | undefined, data: Record<string, unknown>) => number | undefined
+}
+
+// Field types whose values may carry {{...}} references; the editor and the validator
+// both lint exactly these
+export function acceptsTemplates(field: NodeField): boolean {
+  if (field.type === 'number') return !!field.allowTemplate
+  return field.type === 'string' || field.type === 'output' || field.type === 'message' || field.type === 'json'
+}
+
+// Named source handle on nodes that route to more than one downstream path
+export type NodeBranch = {
+  id: string
+  label: string
+}
+
 export type NodeDoc = {
   type: string
   name: string
@@ -8,6 +75,81 @@ export type NodeDoc = {
   inputs?: string[]
   outputs?: string[]
   example?: string
+  fields?: NodeField[]
+  notes?: string[]
+  capsNote?: (meta: MetaResponse) => string
+  // first branch is the one legacy edges without a sourceHandle attach to
+  branches?: NodeBranch[]
+}
+
+const RPC_NOTE = 'requires backend rpc via SOLANA_RPC_URL'
+const HTTP_ALLOWLIST_NOTE = 'requires backend allowlist via EXECUTOR_HTTP_ALLOWED_HOSTS'
+
+const COMMITMENT_OPTIONS: NodeFieldOption[] = [
+  { value: 'processed', label: 'processed' },
+  { value: 'confirmed', label: 'confirmed' },
+  { value: 'finalized', label: 'finalized' },
+]
+
+const SWAP_SLIPPAGE_OPTIONS: NodeFieldOption[] = [
+  { value: '50', label: '0.5% (very low - may fail)' },
+  { value: '100', label: '1% (low)' },
+  { value: '300', label: '3% (recommended)' },
+  { value: '500', label: '5% (medium)' },
+  { value: '1000', label: '10% (high)' },
+  { value: '2000', label: '20% (very high)' },
+]
+
+const PUMP_FUN_SLIPPAGE_OPTIONS: NodeFieldOption[] = [
+  { value: '100', label: '1%' },
+  { value: '300', label: '3%' },
+  { value: '500', label: '5% (recommended)' },
+  { value: '1000', label: '10%' },
+  { value: '2000', label: '20%' },
+]
+
+const walletCredentialField: NodeField = {
+  name: 'credentialId',
+  label: 'wallet credential',
+  type: 'credential',
+  provider: 'solana_wallet',
+  required: true,
+}
+
+function mintOutputField(overrides: Partial<NodeField> = {}): NodeField {
+  return {
+    name: 'mint',
+    label: 'token mint',
+    type: 'output',
+    default: '',
+    placeholder: 'Select or enter token mint...',
+    address: 'mint',
+    ...overrides,
+  }
+}
+
+function mintInputField(name: string, label: string, defaultValue: string, overrides: Partial<NodeField> = {}): NodeField {
+  return {
+    name,
+    label,
+    type: 'string',
+    default: defaultValue,
+    mono: true,
+    address: 'mint',
+    placeholder: defaultValue || SOL_MINT,
+    ...overrides,
+  }
+}
+
+function signatureField(overrides: Partial<NodeField> = {}): NodeField {
+  return {
+    name: 'signature',
+    label: 'transaction signature',
+    type: 'output',
+    default: '',
+    placeholder: 'Select transaction signature...',
+    ...overrides,
+  }
 }
 
 export const nodeDocumentation: Record<string, NodeDoc> = {
@@ -16,9 +158,53 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     type: 'timer_trigger',
     name: 'Timer Trigger',
     category: 'trigger',
-    description: 'Starts the workflow at regular intervals. Set the interval in seconds (minimum 60s for enabled workflows).',
+    description:
+      'Starts the workflow on a schedule: every N seconds, or on a cron expression such as "30 14 * * 1-5" (14:30 on weekdays) in a chosen time zone.',
     outputs: ['timestamp', 'intervalSeconds'],
     example: 'Use for periodic price checks, DCA buying, or scheduled tasks.',
+    fields: [
+      {
+        name: 'scheduleMode',
+        label: 'schedule',
+        type: 'select',
+        default: 'interval',
+        options: [
+          { value: 'interval', label: 'fixed interval' },
+          { value: 'cron', label: 'cron expression' },
+        ],
+      },
+      {
+        name: 'intervalSeconds',
+        label: 'interval seconds',
+        type: 'number',
+        default: 60,
+        min: 1,
+        placeholder: '60',
+        required: true,
+        legacyValue: readLegacyIntervalSeconds,
+        hint: 'used by the trigger service when workflow is enabled',
+        visibleIf: (data) => !isCronSchedule(data),
+      },
+      {
+        name: 'cron',
+        label: 'cron expression',
+        type: 'string',
+        mono: true,
+        placeholder: '30 14 * * 1-5',
+        required: true,
+        hint: 'minute hour day-of-month month day-of-week; @hourly, @daily and @weekly also work',
+        visibleIf: isCronSchedule,
+      },
+      {
+        name: 'timezone',
+        label: 'time zone',
+        type: 'select',
+        default: 'UTC',
+        options: listTimeZones().map((tz) => ({ value: tz, label: tz })),
+        hint: `your browser is on ${getLocalTimeZone()}`,
+        visibleIf: isCronSchedule,
+      },
+    ],
   },
   price_trigger: {
     type: 'price_trigger',
@@ -28,6 +214,43 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     inputs: ['symbol', 'direction', 'threshold'],
     outputs: ['price', 'triggered'],
     example: 'Alert when SOL crosses above $100.',
+    fields: [
+      { name: 'symbol', label: 'symbol', type: 'string', default: 'SOL', placeholder: 'SOL', required: true },
+      { name: 'vsCurrency', label: 'vs currency', type: 'string', default: 'usd', placeholder: 'usd' },
+      {
+        name: 'direction',
+        label: 'direction',
+        type: 'select',
+        default: 'crosses_above',
+        required: true,
+        options: [
+          { value: 'crosses_above', label: 'crosses_above' },
+          { value: 'crosses_below', label: 'crosses_below' },
+        ],
+      },
+      {
+        name: 'threshold',
+        label: 'threshold',
+        type: 'number',
+        default: 150,
+        min: 0,
+        exclusiveMin: true,
+        step: 0.0001,
+        placeholder: '150',
+        required: true,
+      },
+      {
+        name: 'intervalSeconds',
+        label: 'interval seconds',
+        type: 'number',
+        default: 60,
+        min: 1,
+        placeholder: '60',
+        required: true,
+        legacyValue: readLegacyIntervalSeconds,
+        hint: 'polling interval used by trigger service',
+      },
+    ],
   },
   onchain_trigger: {
     type: 'onchain_trigger',
@@ -37,6 +260,118 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     inputs: ['walletAddresses'],
     outputs: ['signature', 'event', 'matchedWallets', 'receivedAt'],
     example: 'React to wallet activity, swaps, or transfers in real-time.',
+    fields: [
+      {
+        name: 'walletAddresses',
+        label: 'wallet addresses to watch',
+        type: 'string',
+        multiline: true,
+        mono: true,
+        address: 'wallet',
+        placeholder: 'Enter wallet addresses, one per line',
+        hint: 'Enter one or more Solana wallet addresses to monitor for activity.',
+      },
+      {
+        name: 'transactionTypes',
+        label: 'transaction types (optional)',
+        type: 'select',
+        options: [
+          { value: 'all', label: 'All transactions' },
+          { value: 'swap', label: 'Swaps only' },
+          { value: 'transfer', label: 'Transfers only' },
+          { value: 'nft', label: 'NFT transactions' },
+        ],
+      },
+    ],
+  },
+  webhook_trigger: {
+    type: 'webhook_trigger',
+    name: 'Webhook Trigger',
+    category: 'trigger',
+    description:
+      'Starts the workflow when an HTTP POST arrives at its endpoint, e.g. a TradingView alert or one of your own services.',
+    inputs: ['payloadSchema'],
+    outputs: ['body', 'headers', 'receivedAt'],
+    example: 'Buy when a TradingView strategy alert fires, using {{nodes.<id>.output.body.ticker}} downstream.',
+    fields: [
+      {
+        name: 'verification',
+        label: 'request verification',
+        type: 'select',
+        default: 'signature',
+        options: [
+          { value: 'signature', label: 'HMAC signature header' },
+          { value: 'token', label: 'secret token in the url (TradingView)' },
+        ],
+        hint: 'TradingView cannot set headers, so use the url token there',
+      },
+      {
+        name: 'payloadSchema',
+        label: 'payload schema',
+        type: 'json',
+        default: { ticker: 'string', action: 'string', price: 'number' },
+        placeholder: '{ "ticker": "string", "price": "number" }',
+        hint: 'field names mapped to string, number, boolean, object or any; nest objects and use ["string"] for lists',
+      },
+    ],
+    notes: ['requests without a valid signature or token are rejected with 401 and never start a run'],
+  },
+  balance_threshold_trigger: {
+    type: 'balance_threshold_trigger',
+    name: 'Balance Threshold',
+    category: 'trigger',
+    description: 'Triggers when a wallet balance moves above or below a threshold.',
+    inputs: ['credentialId', 'mint', 'direction', 'threshold'],
+    outputs: ['balance', 'threshold', 'triggered'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint (optional)', '', { placeholder: 'leave empty for SOL' }),
+      {
+        name: 'direction',
+        label: 'direction',
+        type: 'select',
+        default: 'above',
+        options: [
+          { value: 'above', label: 'above' },
+          { value: 'below', label: 'below' },
+        ],
+      },
+      { name: 'threshold', label: 'threshold', type: 'number', default: 1, min: 0, allowTemplate: true, required: true },
+      {
+        name: 'intervalSeconds',
+        label: 'interval seconds',
+        type: 'number',
+        default: 60,
+        min: 1,
+        placeholder: '60',
+        legacyValue: readLegacyIntervalSeconds,
+        hint: 'polling interval used by trigger service',
+      },
+    ],
+  },
+  price_change_trigger: {
+    type: 'price_change_trigger',
+    name: 'Price Change',
+    category: 'trigger',
+    description: 'Triggers when a token price moves by a percentage within a timeframe.',
+    inputs: ['mint', 'changePercentage', 'direction', 'timeframeMinutes'],
+    outputs: ['priceUsd', 'changePercentage', 'direction'],
+    fields: [
+      mintInputField('mint', 'token mint', '', { required: true }),
+      { name: 'changePercentage', label: 'change (%)', type: 'number', default: 5, min: 0, exclusiveMin: true, allowTemplate: true },
+      {
+        name: 'direction',
+        label: 'direction',
+        type: 'select',
+        default: 'any',
+        options: [
+          { value: 'any', label: 'any' },
+          { value: 'up', label: 'up' },
+          { value: 'down', label: 'down' },
+        ],
+      },
+      { name: 'timeframeMinutes', label: 'timeframe (minutes)', type: 'number', default: 60, min: 1 },
+    ],
   },
 
   // Actions
@@ -47,6 +382,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Logs a message to the execution output. Useful for debugging.',
     inputs: ['message'],
     outputs: ['message', 'timestamp'],
+    fields: [{ name: 'message', label: 'message', type: 'string', default: 'hello', placeholder: 'message', allowTemplate: true }],
   },
   delay: {
     type: 'delay',
@@ -55,6 +391,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Pauses execution for a specified number of milliseconds (max 30 seconds).',
     inputs: ['ms'],
     outputs: ['ms'],
+    fields: [{ name: 'ms', label: 'delay ms', type: 'number', default: 1000, min: 0, max: 30000, placeholder: '1000' }],
   },
   transform: {
     type: 'transform',
@@ -64,6 +401,16 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     inputs: ['value'],
     outputs: ['value'],
     example: '{{n1.price}} * 1.1 to add 10% markup.',
+    fields: [
+      {
+        name: 'value',
+        label: 'value (json or template)',
+        type: 'json',
+        default: { ok: true },
+        allowTemplate: true,
+        placeholder: '{"amount": "{{nodes.n1.output.sol}}"}',
+      },
+    ],
   },
   http_request: {
     type: 'http_request',
@@ -72,6 +419,108 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Makes HTTP requests to allowed external APIs.',
     inputs: ['url', 'method', 'headers', 'body'],
     outputs: ['status', 'body', 'headers'],
+    fields: [
+      {
+        name: 'url',
+        label: 'url',
+        type: 'string',
+        default: 'https://example.com',
+        placeholder: 'https://api.example.com/path',
+        required: true,
+        allowTemplate: true,
+      },
+      {
+        name: 'method',
+        label: 'method',
+        type: 'select',
+        default: 'GET',
+        options: [
+          { value: 'GET', label: 'GET' },
+          { value: 'POST', label: 'POST' },
+        ],
+      },
+      { name: 'credentialId', label: 'credential', type: 'credential' },
+    ],
+    notes: [HTTP_ALLOWLIST_NOTE],
+  },
+  twap: {
+    type: 'twap',
+    name: 'TWAP',
+    category: 'action',
+    description: 'Time-Weighted Average Price execution over multiple intervals.',
+    inputs: ['inputMint', 'outputMint', 'totalAmount', 'intervals', 'intervalMinutes'],
+    outputs: ['schedule', 'amountPerInterval'],
+    fields: [
+      walletCredentialField,
+      mintInputField('inputMint', 'input mint', SOL_MINT, { required: true }),
+      mintInputField('outputMint', 'output mint', '', { required: true, placeholder: USDC_MINT }),
+      {
+        name: 'totalAmount',
+        label: 'total amount',
+        type: 'number',
+        default: 1,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      { name: 'intervals', label: 'intervals', type: 'number', default: 5, min: 2, max: 20 },
+      { name: 'intervalMinutes', label: 'interval (minutes)', type: 'number', default: 10, min: 1 },
+      { name: 'slippageBps', label: 'slippage (bps)', type: 'number', default: 300, min: 1 },
+    ],
+  },
+  split_order: {
+    type: 'split_order',
+    name: 'Split Order',
+    category: 'action',
+    description: 'Splits a large order into smaller chunks executed with a delay between them.',
+    inputs: ['totalAmount', 'chunks', 'delayBetweenMs'],
+    outputs: ['chunkAmount', 'chunks'],
+    fields: [
+      {
+        name: 'totalAmount',
+        label: 'total amount',
+        type: 'number',
+        default: 1,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      { name: 'chunks', label: 'chunks', type: 'number', default: 5, min: 2, max: 20 },
+      { name: 'delayBetweenMs', label: 'delay between chunks (ms)', type: 'number', default: 5000, min: 0 },
+    ],
+  },
+  copy_trade: {
+    type: 'copy_trade',
+    name: 'Copy Trade',
+    category: 'action',
+    description: 'Mirrors swaps made by a target wallet using your wallet.',
+    inputs: ['credentialId', 'targetWallet', 'maxAmountPerTrade', 'slippageBps'],
+    outputs: ['txSignature', 'copiedSignature'],
+    fields: [
+      { ...walletCredentialField, label: 'your wallet credential' },
+      {
+        name: 'targetWallet',
+        label: 'wallet to copy',
+        type: 'string',
+        default: '',
+        mono: true,
+        address: 'wallet',
+        placeholder: 'target wallet address',
+        required: true,
+      },
+      {
+        name: 'maxAmountPerTrade',
+        label: 'max amount per trade (sol)',
+        type: 'number',
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        placeholder: 'optional limit',
+      },
+      { name: 'slippageBps', label: 'slippage (bps)', type: 'number', default: 300, min: 1 },
+    ],
   },
 
   // Logic
@@ -79,10 +528,47 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     type: 'if',
     name: 'Condition (If)',
     category: 'logic',
-    description: 'Evaluates a condition. Downstream nodes only run if condition passes.',
+    description: 'Evaluates a condition and routes execution down the true or false branch.',
     inputs: ['left', 'op', 'right'],
     outputs: ['passed', 'op', 'left', 'right'],
     example: 'Check if {{n1.price}} > 100.',
+    branches: [
+      { id: 'true', label: 'true' },
+      { id: 'false', label: 'false' },
+    ],
+    fields: [
+      {
+        name: 'left',
+        label: 'Value to check',
+        type: 'output',
+        default: true,
+        placeholder: 'Select value from previous node...',
+      },
+      {
+        name: 'op',
+        label: 'Condition',
+        type: 'select',
+        default: 'truthy',
+        options: [
+          { value: 'truthy', label: 'has a value (is not empty)' },
+          { value: 'eq', label: 'equals (=)' },
+          { value: 'neq', label: 'does not equal (≠)' },
+          { value: 'gt', label: 'is greater than (>)' },
+          { value: 'gte', label: 'is greater than or equal (≥)' },
+          { value: 'lt', label: 'is less than (<)' },
+          { value: 'lte', label: 'is less than or equal (≤)' },
+        ],
+      },
+      {
+        name: 'right',
+        label: 'Compare to',
+        type: 'string',
+        placeholder: 'e.g. 100',
+        allowTemplate: true,
+        hint: 'Enter the value to compare against (number or text)',
+        visibleIf: (data) => typeof data.op === 'string' && data.op !== 'truthy',
+      },
+    ],
   },
   cooldown: {
     type: 'cooldown',
@@ -91,6 +577,74 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Prevents the workflow from running again within a cooldown period.',
     inputs: ['key', 'cooldownMs'],
     outputs: ['passed', 'remainingMs'],
+    fields: [
+      {
+        name: 'ttlSeconds',
+        label: 'Wait time before allowing next run',
+        type: 'number',
+        default: 60,
+        min: 1,
+        max: 604800,
+        unit: 'seconds',
+        required: true,
+        hint: 'Common values: 60 (1 min), 300 (5 min), 3600 (1 hour), 86400 (1 day)',
+      },
+      {
+        name: 'key',
+        label: 'Cooldown identifier',
+        type: 'output',
+        default: 'my-cooldown',
+        placeholder: 'my-cooldown',
+        hint: 'Use a fixed name, or pick an output (e.g. a mint) to keep a separate cooldown per value',
+      },
+    ],
+  },
+  retry: {
+    type: 'retry',
+    name: 'Retry',
+    category: 'logic',
+    description: 'Retries the downstream step with exponential backoff when it fails.',
+    inputs: ['maxAttempts', 'delayMs', 'backoffMultiplier'],
+    outputs: ['attempts', 'succeeded'],
+    fields: [
+      { name: 'maxAttempts', label: 'max attempts', type: 'number', default: 3, min: 1, max: 10, required: true },
+      { name: 'delayMs', label: 'initial delay (ms)', type: 'number', default: 1000, min: 0 },
+      { name: 'backoffMultiplier', label: 'backoff multiplier', type: 'number', default: 2, min: 1, step: 0.5 },
+    ],
+  },
+  call_workflow: {
+    type: 'call_workflow',
+    name: 'Call Workflow',
+    category: 'logic',
+    description:
+      'Runs another workflow as a single step and waits for it, so shared logic (e.g. a rug/liquidity/volume safety gate) lives in one place.',
+    inputs: ['childWorkflowId', 'inputMapping', 'outputMapping'],
+    outputs: ['childExecutionId', 'status', 'outputs'],
+    example: 'Call a "safety gate" workflow with { "mint": "{{nodes.n1.output.mint}}" } and branch on outputs.safe.',
+    fields: [
+      { name: 'childWorkflowId', label: 'workflow', type: 'workflow', required: true },
+      {
+        name: 'inputMapping',
+        label: 'inputs',
+        type: 'json',
+        default: {},
+        placeholder: '{ "mint": "{{nodes.n1.output.mint}}" }',
+        hint: 'the child reads these as {{nodes.<its trigger>.output.input.<name>}}',
+      },
+      {
+        name: 'outputMapping',
+        label: 'outputs',
+        type: 'json',
+        default: {},
+        placeholder: '{ "safe": "n4.passed" }',
+        hint: 'names for values picked from the child run (<child node id>.<output path>), read here as outputs.<name>',
+      },
+      { name: 'timeoutSeconds', label: 'timeout (seconds)', type: 'number', default: 300, min: 1, max: 3600 },
+    ],
+    notes: [
+      'the child runs from its first trigger whether or not it is enabled',
+      'a failed or timed-out child run fails this step',
+    ],
   },
   stop_loss: {
     type: 'stop_loss',
@@ -99,6 +653,21 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Triggers when price drops below a percentage of entry price.',
     inputs: ['entryPrice', 'stopLossPercent', 'currentPrice'],
     outputs: ['triggered', 'triggerPrice'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint', '', { required: true, placeholder: 'EPjFWdd5...' }),
+      {
+        name: 'triggerPriceUsd',
+        label: 'trigger price (USD)',
+        type: 'number',
+        default: 0,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      { name: 'sellPercentage', label: 'sell percentage', type: 'number', default: 100, min: 1, max: 100 },
+    ],
   },
   take_profit: {
     type: 'take_profit',
@@ -107,6 +676,21 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Triggers when price rises above a percentage of entry price.',
     inputs: ['entryPrice', 'takeProfitPercent', 'currentPrice'],
     outputs: ['triggered', 'triggerPrice'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint', '', { required: true, placeholder: 'EPjFWdd5...' }),
+      {
+        name: 'triggerPriceUsd',
+        label: 'trigger price (USD)',
+        type: 'number',
+        default: 0,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      { name: 'sellPercentage', label: 'sell percentage', type: 'number', default: 100, min: 1, max: 100 },
+    ],
   },
   trailing_stop: {
     type: 'trailing_stop',
@@ -115,6 +699,12 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Dynamic stop loss that moves up with price, locking in profits.',
     inputs: ['mint', 'trailPercentage'],
     outputs: ['triggered', 'highPrice', 'triggerPrice'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint', '', { required: true, placeholder: 'EPjFWdd5...' }),
+      { name: 'trailPercentage', label: 'trail (%)', type: 'number', default: 5, min: 0.1, max: 50, step: 0.1 },
+      { name: 'sellPercentage', label: 'sell percentage', type: 'number', default: 100, min: 1, max: 100 },
+    ],
   },
   limit_order: {
     type: 'limit_order',
@@ -123,6 +713,40 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Executes when price reaches target level.',
     inputs: ['mint', 'side', 'targetPriceUsd', 'amount'],
     outputs: ['triggered', 'currentPriceUsd'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint', '', { required: true, placeholder: 'EPjFWdd5...' }),
+      {
+        name: 'side',
+        label: 'side',
+        type: 'select',
+        default: 'buy',
+        options: [
+          { value: 'buy', label: 'buy' },
+          { value: 'sell', label: 'sell' },
+        ],
+      },
+      {
+        name: 'targetPriceUsd',
+        label: 'target price (USD)',
+        type: 'number',
+        default: 0,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      {
+        name: 'amount',
+        label: 'amount',
+        type: 'number',
+        default: 1,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+    ],
   },
   volume_check: {
     type: 'volume_check',
@@ -131,6 +755,10 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Checks if 24h trading volume exceeds a threshold.',
     inputs: ['mint', 'minVolume24h'],
     outputs: ['volume24h', 'passed'],
+    fields: [
+      mintOutputField(),
+      { name: 'minVolume24h', label: 'min 24h volume (USD)', type: 'number', default: 10000, min: 0, allowTemplate: true },
+    ],
   },
   liquidity_check: {
     type: 'liquidity_check',
@@ -139,6 +767,10 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Verifies token has sufficient liquidity.',
     inputs: ['mint', 'minLiquidityUsd'],
     outputs: ['liquidity', 'passed'],
+    fields: [
+      mintOutputField(),
+      { name: 'minLiquidityUsd', label: 'min liquidity (USD)', type: 'number', default: 50000, min: 0, allowTemplate: true },
+    ],
   },
   rug_check: {
     type: 'rug_check',
@@ -147,6 +779,23 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Checks for rug pull warning signs (age, liquidity, holders).',
     inputs: ['mint', 'minTokenAgeMinutes', 'maxTopHolderPercentage'],
     outputs: ['passed', 'warnings', 'tokenAgeMinutes', 'holderCount'],
+    fields: [
+      mintOutputField(),
+      { name: 'minTokenAgeMinutes', label: 'min token age (minutes)', type: 'number', default: 60, min: 0 },
+      { name: 'maxTopHolderPercentage', label: 'max top holder (%)', type: 'number', default: 50, min: 0, max: 100 },
+    ],
+  },
+  whale_alert: {
+    type: 'whale_alert',
+    name: 'Whale Alert',
+    category: 'logic',
+    description: 'Passes when a transfer of a token exceeds a minimum amount.',
+    inputs: ['mint', 'minAmount'],
+    outputs: ['passed', 'amount', 'from', 'to', 'signature'],
+    fields: [
+      mintOutputField(),
+      { name: 'minAmount', label: 'min amount (tokens)', type: 'number', default: 10000, min: 0, allowTemplate: true },
+    ],
   },
 
   // Notifications
@@ -157,6 +806,27 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Sends a message to a Discord channel via webhook.',
     inputs: ['credentialId', 'content', 'username'],
     outputs: ['status', 'sentAt'],
+    fields: [
+      { name: 'credentialId', label: 'credential (recommended)', type: 'credential', provider: 'discord_webhook' },
+      {
+        name: 'webhookUrl',
+        label: 'webhook url (optional)',
+        type: 'string',
+        mono: true,
+        placeholder: 'https://discord.com/api/webhooks/...',
+      },
+      {
+        name: 'content',
+        label: 'content',
+        type: 'message',
+        default: 'hello from cyphersol',
+        allowTemplate: true,
+        required: true,
+        hint: 'In select mode, pick an output from previous nodes. In custom mode, type any message (supports {{nodes.id.output.path}} if you prefer).',
+      },
+      { name: 'username', label: 'username (optional)', type: 'string', default: 'cyphersol', placeholder: 'cyphersol' },
+    ],
+    notes: ['provide either a stored credential or a direct webhook url'],
   },
   telegram_message: {
     type: 'telegram_message',
@@ -165,6 +835,70 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Sends a message via Telegram bot. Get a bot token from @BotFather.',
     inputs: ['credentialId', 'chatId', 'text', 'parseMode'],
     outputs: ['status', 'messageId', 'sentAt'],
+    fields: [
+      { name: 'credentialId', label: 'credential (recommended)', type: 'credential', provider: 'telegram_bot' },
+      {
+        name: 'chatId',
+        label: 'chat ID',
+        type: 'string',
+        default: '',
+        mono: true,
+        required: true,
+        placeholder: '-1001234567890 or @channelname',
+        hint: 'Get chat ID by forwarding a message to @userinfobot',
+      },
+      {
+        name: 'text',
+        label: 'message',
+        type: 'string',
+        default: '',
+        multiline: true,
+        allowTemplate: true,
+        required: true,
+        placeholder: 'Your notification message...',
+      },
+      {
+        name: 'parseMode',
+        label: 'parse mode (optional)',
+        type: 'select',
+        options: [
+          { value: '', label: 'plain text' },
+          { value: 'HTML', label: 'HTML' },
+          { value: 'Markdown', label: 'Markdown' },
+          { value: 'MarkdownV2', label: 'MarkdownV2' },
+        ],
+      },
+    ],
+  },
+  telegram_notify: {
+    type: 'telegram_notify',
+    name: 'Telegram Notify',
+    category: 'notify',
+    description: 'Sends a notification to a Telegram chat using a stored bot token.',
+    inputs: ['credentialId', 'chatId', 'message'],
+    outputs: ['status', 'messageId', 'sentAt'],
+    fields: [
+      { name: 'credentialId', label: 'bot token credential', type: 'credential', provider: 'telegram_bot', required: true },
+      {
+        name: 'chatId',
+        label: 'chat ID',
+        type: 'string',
+        default: '',
+        mono: true,
+        required: true,
+        placeholder: '-1001234567890 or @channelname',
+      },
+      {
+        name: 'message',
+        label: 'message',
+        type: 'string',
+        default: '',
+        multiline: true,
+        allowTemplate: true,
+        required: true,
+        placeholder: 'Trade executed: {{node.signature}}',
+      },
+    ],
   },
 
   // Market Data
@@ -175,6 +909,15 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches current price and market data from DexScreener.',
     inputs: ['pairAddress'],
     outputs: ['priceUsd', 'priceChange24h', 'volume24h', 'liquidity'],
+    fields: [
+      mintOutputField({
+        label: 'Token address',
+        forceInput: true,
+        required: true,
+        placeholder: 'e.g. EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+        hint: 'Fetches price from DexScreener. Use token mint address, not pair address.',
+      }),
+    ],
   },
   birdeye_price: {
     type: 'birdeye_price',
@@ -183,6 +926,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches token price from Birdeye API.',
     inputs: ['mint'],
     outputs: ['priceUsd', 'priceChange24h'],
+    fields: [mintOutputField()],
   },
   pyth_price_feed_id: {
     type: 'pyth_price_feed_id',
@@ -191,6 +935,8 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Gets the Pyth price feed ID for a token symbol.',
     inputs: ['tokenSymbol'],
     outputs: ['priceFeedId'],
+    fields: [{ name: 'tokenSymbol', label: 'token symbol', type: 'string', default: 'SOL', placeholder: 'SOL', required: true }],
+    notes: ['fetched from hermes.pyth.network'],
   },
   pyth_price: {
     type: 'pyth_price',
@@ -199,6 +945,19 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches price from Pyth oracle network.',
     inputs: ['priceFeedId'],
     outputs: ['price', 'confidence', 'timestamp'],
+    fields: [
+      {
+        name: 'priceFeedId',
+        label: 'price feed id',
+        type: 'string',
+        default: '',
+        mono: true,
+        allowTemplate: true,
+        required: true,
+        placeholder: 'feed id',
+      },
+    ],
+    notes: ['fetched from hermes.pyth.network'],
   },
   jupiter_quote: {
     type: 'jupiter_quote',
@@ -207,6 +966,25 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Gets a swap quote from Jupiter aggregator.',
     inputs: ['inputMint', 'outputMint', 'amount'],
     outputs: ['outAmount', 'priceImpact', 'route'],
+    fields: [
+      mintInputField('inputMint', 'input mint', SOL_MINT, { required: true }),
+      mintInputField('outputMint', 'output mint', USDC_MINT, { required: true }),
+      { name: 'amount', label: 'amount', type: 'number', default: 1, min: 0, exclusiveMin: true, allowTemplate: true },
+      { name: 'slippageBps', label: 'slippage (bps)', type: 'number', default: 50, min: 1 },
+    ],
+  },
+  market_data: {
+    type: 'market_data',
+    name: 'Market Data',
+    category: 'market',
+    description: 'Fetches price, market cap and volume for a symbol.',
+    inputs: ['symbol', 'vsCurrency'],
+    outputs: ['price', 'marketCap', 'volume24h', 'priceChange24h'],
+    fields: [
+      { name: 'symbol', label: 'symbol', type: 'string', default: 'SOL', placeholder: 'SOL', required: true },
+      { name: 'vsCurrency', label: 'vs currency', type: 'string', default: 'usd', placeholder: 'usd' },
+    ],
+    notes: [HTTP_ALLOWLIST_NOTE],
   },
 
   // Solana Actions
@@ -217,6 +995,33 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches the SOL balance of a wallet.',
     inputs: ['credentialId'],
     outputs: ['solBalance', 'walletAddress'],
+    fields: [
+      {
+        name: 'walletSource',
+        label: 'wallet source',
+        type: 'select',
+        options: [
+          { value: 'credential', label: 'my wallet (credential)' },
+          { value: 'address', label: 'external wallet (address)' },
+        ],
+        clears: ['walletAddress', 'credentialId'],
+      },
+      { ...walletCredentialField, visibleIf: (data) => data.walletSource !== 'address' },
+      {
+        name: 'walletAddress',
+        label: 'wallet address',
+        type: 'string',
+        mono: true,
+        address: 'wallet',
+        required: true,
+        allowTemplate: true,
+        placeholder: 'e.g. 5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1',
+        hint: 'enter any Solana wallet address to check its balance',
+        visibleIf: (data) => data.walletSource === 'address',
+      },
+      { name: 'commitment', label: 'commitment', type: 'select', default: 'confirmed', options: COMMITMENT_OPTIONS },
+    ],
+    notes: [RPC_NOTE],
   },
   solana_token_balance: {
     type: 'solana_token_balance',
@@ -225,6 +1030,8 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches the token balance for a specific mint.',
     inputs: ['credentialId', 'mint'],
     outputs: ['balance', 'decimals'],
+    fields: [walletCredentialField, mintOutputField({ required: true })],
+    notes: [RPC_NOTE],
   },
   solana_transfer: {
     type: 'solana_transfer',
@@ -233,6 +1040,36 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Transfers SOL or SPL tokens to another wallet.',
     inputs: ['credentialId', 'to', 'amount', 'mint'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      {
+        name: 'to',
+        label: 'to (public key)',
+        type: 'string',
+        default: '',
+        mono: true,
+        address: 'wallet',
+        required: true,
+        allowTemplate: true,
+        placeholder: 'recipient public key',
+      },
+      mintInputField('mint', 'mint (optional)', '', { default: undefined, placeholder: 'leave empty for SOL' }),
+      {
+        name: 'amount',
+        label: 'amount',
+        type: 'number',
+        default: 0.01,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+        metaMax: (meta, data) =>
+          data.mint ? meta?.solanaTransferMaxTokenAmount : meta?.solanaTransferMaxSol,
+      },
+    ],
+    notes: [RPC_NOTE],
+    capsNote: (meta) =>
+      `safety caps: max ${meta.solanaTransferMaxSol} SOL · max ${meta.solanaTransferMaxTokenAmount} tokens`,
   },
   jupiter_swap: {
     type: 'jupiter_swap',
@@ -241,6 +1078,40 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Swaps tokens using Jupiter aggregator for best rates.',
     inputs: ['credentialId', 'inputMint', 'outputMint', 'amount', 'slippageBps'],
     outputs: ['txSignature', 'inputAmount', 'outputAmount'],
+    fields: [
+      walletCredentialField,
+      mintInputField('inputMint', 'Token to sell (mint address)', SOL_MINT, { required: true, allowTemplate: true }),
+      mintInputField('outputMint', 'Token to buy (mint address)', USDC_MINT, { required: true, allowTemplate: true }),
+      {
+        name: 'amount',
+        label: 'amount (token units)',
+        type: 'number',
+        default: 0.01,
+        min: 0,
+        exclusiveMin: true,
+        step: 0.000001,
+        allowTemplate: true,
+        required: true,
+        placeholder: '0.01',
+        metaMax: (meta) => meta?.jupiterSwapMaxAmount ?? 10,
+      },
+      {
+        name: 'slippageBps',
+        label: 'Max price slippage',
+        type: 'select',
+        numeric: true,
+        default: 300,
+        min: 0,
+        exclusiveMin: true,
+        required: true,
+        unit: 'bps',
+        options: SWAP_SLIPPAGE_OPTIONS,
+        hint: 'Maximum price change allowed during swap. Higher = more likely to succeed but may get worse price.',
+        metaMax: (meta) => meta?.jupiterSwapMaxSlippageBps ?? 2000,
+      },
+    ],
+    capsNote: (meta) =>
+      `⚠️ Safety limits: max swap amount ${meta.jupiterSwapMaxAmount} SOL · max slippage ${(meta.jupiterSwapMaxSlippageBps / 100).toFixed(1)}%`,
   },
   raydium_swap: {
     type: 'raydium_swap',
@@ -249,6 +1120,22 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Swaps tokens on Raydium DEX.',
     inputs: ['credentialId', 'inputMint', 'outputMint', 'amount', 'slippageBps'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      mintInputField('inputMint', 'input mint', SOL_MINT, { required: true, allowTemplate: true }),
+      mintInputField('outputMint', 'output mint', USDC_MINT, { required: true, allowTemplate: true }),
+      {
+        name: 'amount',
+        label: 'amount',
+        type: 'number',
+        default: 0.01,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      { name: 'slippageBps', label: 'slippage', type: 'select', numeric: true, default: 300, options: SWAP_SLIPPAGE_OPTIONS },
+    ],
   },
   pump_fun_buy: {
     type: 'pump_fun_buy',
@@ -257,6 +1144,29 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Buys tokens on Pump.fun.',
     inputs: ['credentialId', 'mint', 'solAmount', 'slippageBps'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint', '', { required: true, allowTemplate: true, placeholder: 'pump.fun token mint' }),
+      {
+        name: 'solAmount',
+        label: 'sol amount',
+        type: 'number',
+        default: 0.01,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      {
+        name: 'slippageBps',
+        label: 'slippage',
+        type: 'select',
+        numeric: true,
+        default: 500,
+        options: PUMP_FUN_SLIPPAGE_OPTIONS,
+        hint: 'pump.fun tokens are volatile; higher slippage improves fill rate',
+      },
+    ],
   },
   pump_fun_sell: {
     type: 'pump_fun_sell',
@@ -265,6 +1175,29 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Sells tokens on Pump.fun.',
     inputs: ['credentialId', 'mint', 'tokenAmount', 'slippageBps'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      mintInputField('mint', 'token mint', '', { required: true, allowTemplate: true, placeholder: 'pump.fun token mint' }),
+      {
+        name: 'tokenAmount',
+        label: 'token amount',
+        type: 'number',
+        default: 1000,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+      {
+        name: 'slippageBps',
+        label: 'slippage',
+        type: 'select',
+        numeric: true,
+        default: 500,
+        options: PUMP_FUN_SLIPPAGE_OPTIONS,
+        hint: 'pump.fun tokens are volatile; higher slippage improves fill rate',
+      },
+    ],
   },
   solana_stake: {
     type: 'solana_stake',
@@ -273,6 +1206,23 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Stakes SOL to earn rewards.',
     inputs: ['credentialId', 'amount'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      {
+        name: 'amount',
+        label: 'amount (sol)',
+        type: 'number',
+        default: 0.1,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+        unit: 'SOL',
+        placeholder: '0.1',
+        metaMax: (meta) => meta?.solanaStakeMaxSol,
+      },
+    ],
+    capsNote: (meta) => `safety caps: stake max ${meta.solanaStakeMaxSol} SOL · restake max ${meta.solanaRestakeMaxSol} SOL`,
   },
   solana_restake: {
     type: 'solana_restake',
@@ -281,6 +1231,23 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Restakes staking rewards to compound earnings.',
     inputs: ['credentialId', 'amount'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      {
+        name: 'amount',
+        label: 'amount (sol)',
+        type: 'number',
+        default: 0.1,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+        unit: 'SOL',
+        placeholder: '0.1',
+        metaMax: (meta) => meta?.solanaRestakeMaxSol,
+      },
+    ],
+    capsNote: (meta) => `safety caps: stake max ${meta.solanaStakeMaxSol} SOL · restake max ${meta.solanaRestakeMaxSol} SOL`,
   },
   lulo_lend: {
     type: 'lulo_lend',
@@ -289,6 +1256,20 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Lends assets on Lulo protocol for yield.',
     inputs: ['credentialId', 'amount'],
     outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      {
+        name: 'amount',
+        label: 'usdc amount',
+        type: 'number',
+        default: 1,
+        min: 0,
+        exclusiveMin: true,
+        allowTemplate: true,
+        required: true,
+      },
+    ],
+    notes: ['lends usdc via lulo protocol'],
   },
   close_empty_token_accounts: {
     type: 'close_empty_token_accounts',
@@ -297,6 +1278,61 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Closes empty token accounts to reclaim SOL rent.',
     inputs: ['credentialId'],
     outputs: ['txSignature', 'closedCount'],
+    fields: [walletCredentialField],
+    notes: [RPC_NOTE],
+  },
+  solana_confirm_tx: {
+    type: 'solana_confirm_tx',
+    name: 'Confirm Transaction',
+    category: 'solana',
+    description: 'Checks the confirmation status of a transaction signature.',
+    inputs: ['signature', 'commitment'],
+    outputs: ['signature', 'confirmed', 'slot', 'err'],
+    fields: [
+      signatureField({ required: true }),
+      { name: 'commitment', label: 'commitment', type: 'select', default: 'confirmed', options: COMMITMENT_OPTIONS },
+    ],
+    notes: [RPC_NOTE],
+  },
+  wait_for_confirmation: {
+    type: 'wait_for_confirmation',
+    name: 'Wait for Confirmation',
+    category: 'solana',
+    description: 'Waits until a transaction reaches the requested commitment or times out.',
+    inputs: ['signature', 'commitment', 'timeoutMs'],
+    outputs: ['signature', 'confirmed', 'slot'],
+    fields: [
+      signatureField({ required: true }),
+      {
+        name: 'commitment',
+        label: 'commitment',
+        type: 'select',
+        default: 'confirmed',
+        options: COMMITMENT_OPTIONS.filter((o) => o.value !== 'processed'),
+      },
+      { name: 'timeoutMs', label: 'timeout (ms)', type: 'number', default: 60000, min: 1000 },
+    ],
+    notes: [RPC_NOTE],
+  },
+  memo: {
+    type: 'memo',
+    name: 'Memo',
+    category: 'solana',
+    description: 'Writes a memo onto the chain using the Memo program.',
+    inputs: ['credentialId', 'memo'],
+    outputs: ['txSignature'],
+    fields: [
+      walletCredentialField,
+      {
+        name: 'memo',
+        label: 'memo',
+        type: 'string',
+        default: '',
+        allowTemplate: true,
+        required: true,
+        placeholder: 'workflow:{{workflowId}}',
+      },
+    ],
   },
 
   // Data
@@ -307,6 +1343,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches token holder count and distribution.',
     inputs: ['mint'],
     outputs: ['holderCount', 'top10Percentage'],
+    fields: [mintOutputField(), { name: 'limit', label: 'limit', type: 'number', default: 20, min: 1, max: 100 }],
   },
   token_supply: {
     type: 'token_supply',
@@ -315,6 +1352,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches token supply information.',
     inputs: ['mint'],
     outputs: ['totalSupply', 'circulatingSupply'],
+    fields: [mintOutputField()],
   },
   portfolio_value: {
     type: 'portfolio_value',
@@ -323,6 +1361,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Calculates total portfolio value in USD.',
     inputs: ['credentialId'],
     outputs: ['totalValueUsd', 'solBalance', 'tokens'],
+    fields: [walletCredentialField],
   },
   get_token_data: {
     type: 'get_token_data',
@@ -331,6 +1370,7 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Fetches token metadata (name, symbol, decimals).',
     inputs: ['mint'],
     outputs: ['name', 'symbol', 'decimals', 'logoUri'],
+    fields: [mintOutputField()],
   },
   parse_transaction: {
     type: 'parse_transaction',
@@ -352,6 +1392,37 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
       'parsed.fee',
       'parsed.feePayer',
     ],
+    fields: [signatureField({ required: true })],
+  },
+  wallet_transactions: {
+    type: 'wallet_transactions',
+    name: 'Wallet Transactions',
+    category: 'data',
+    description: 'Fetches recent transactions for a wallet.',
+    inputs: ['credentialId', 'limit'],
+    outputs: ['transactions', 'count'],
+    fields: [walletCredentialField, { name: 'limit', label: 'limit', type: 'number', default: 10, min: 1, max: 100 }],
+  },
+  transaction_log: {
+    type: 'transaction_log',
+    name: 'Transaction Log',
+    category: 'data',
+    description: 'Records a transaction signature in the workflow trade history.',
+    inputs: ['signature', 'action'],
+    outputs: ['signature', 'action', 'loggedAt'],
+    fields: [
+      signatureField(),
+      { name: 'action', label: 'action', type: 'string', default: 'trade', placeholder: 'trade' },
+    ],
+  },
+  average_cost: {
+    type: 'average_cost',
+    name: 'Average Cost',
+    category: 'data',
+    description: 'Computes the average entry cost of a token from wallet history.',
+    inputs: ['credentialId', 'mint'],
+    outputs: ['averageCostUsd', 'totalQuantity'],
+    fields: [walletCredentialField, mintInputField('mint', 'token mint', '', { required: true, placeholder: 'EPjFWdd5...' })],
   },
 
   // Calculations
@@ -362,6 +1433,11 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Estimates price impact and slippage for a trade.',
     inputs: ['inputMint', 'outputMint', 'amount'],
     outputs: ['priceImpactPct', 'outAmount'],
+    fields: [
+      mintInputField('inputMint', 'input mint', SOL_MINT),
+      mintInputField('outputMint', 'output mint', '', { placeholder: USDC_MINT }),
+      { name: 'amount', label: 'amount', type: 'number', default: 1, min: 0, exclusiveMin: true, allowTemplate: true },
+    ],
   },
   pnl_calculator: {
     type: 'pnl_calculator',
@@ -370,6 +1446,21 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Calculates profit/loss for a position.',
     inputs: ['entryPrice', 'currentPrice', 'quantity'],
     outputs: ['pnl', 'pnlPercent'],
+    fields: [
+      { name: 'entryPrice', label: 'entry price', type: 'number', default: 0, min: 0, allowTemplate: true },
+      { name: 'currentPrice', label: 'current price', type: 'output', default: 0, placeholder: 'Select current price...' },
+      { name: 'quantity', label: 'quantity', type: 'number', default: 1, min: 0, allowTemplate: true },
+      {
+        name: 'side',
+        label: 'side',
+        type: 'select',
+        default: 'long',
+        options: [
+          { value: 'long', label: 'long' },
+          { value: 'short', label: 'short' },
+        ],
+      },
+    ],
   },
   position_size: {
     type: 'position_size',
@@ -378,14 +1469,12 @@ export const nodeDocumentation: Record<string, NodeDoc> = {
     description: 'Calculates optimal position size based on risk.',
     inputs: ['accountBalance', 'riskPercent', 'entryPrice', 'stopLoss'],
     outputs: ['positionSize', 'riskAmount'],
-  },
-  twap: {
-    type: 'twap',
-    name: 'TWAP',
-    category: 'action',
-    description: 'Time-Weighted Average Price execution over multiple intervals.',
-    inputs: ['inputMint', 'outputMint', 'totalAmount', 'intervals', 'intervalMinutes'],
-    outputs: ['schedule', 'amountPerInterval'],
+    fields: [
+      { name: 'accountBalance', label: 'account balance ($)', type: 'number', default: 1000, min: 0, allowTemplate: true },
+      { name: 'riskPercentage', label: 'risk (%)', type: 'number', default: 2, min: 0.1, max: 100, step: 0.1 },
+      { name: 'entryPrice', label: 'entry price', type: 'number', default: 0, min: 0, allowTemplate: true },
+      { name: 'stopLossPrice', label: 'stop loss price', type: 'number', default: 0, min: 0, allowTemplate: true },
+    ],
   },
 
 }
@@ -394,6 +1483,140 @@ export function getNodeDoc(type: string): NodeDoc | undefined {
   return nodeDocumentation[type]
 }
 
+// Documented outputs can be nested, written as dotted names (parse_transaction's
+// "parsed.tokenOutputMint"). A template path is known when it is one of them, reaches
+// below one (runtime data) or stops at a parent of one ("parsed").
+export function isDocumentedOutputPath(outputs: string[], path: string): boolean {
+  return outputs.some((o) => o === path || path.startsWith(`${o}.`) || path.startsWith(`${o}[`) || o.startsWith(`${path}.`))
+}
+
+// Turns dotted output names into nested objects: { "parsed.type": 1 } -> { parsed: { type: 1 } }
+export function nestOutputs(entries: Array<[string, unknown]>): Record<string, unknown> {
+  const out: Record<string, unknown> = {}
+  for (const [name, value] of entries) {
+    const keys = name.split('.')
+    let target = out
+    for (const key of keys.slice(0, -1)) {
+      const next = target[key]
+      if (!next || typeof next !== 'object' || Array.isArray(next)) target[key] = {}
+      target = target[key] as Record<string, unknown>
+    }
+    target[keys[keys.length - 1]] = value
+  }
+  return out
+}
+
+export function getNodeBranches(type: string): NodeBranch[] {
+  return nodeDocumentation[type]?.branches ?? []
+}
+
+export function getNodeFields(type: string): NodeField[] {
+  return nodeDocumentation[type]?.fields ?? []
+}
+
+// Cheap check for a complete {{...}}; lib/expressions parses and checks the contents
+export function isTemplateString(v: unknown): boolean {
+  return typeof v === 'string' && /\{\{[^{}]*\}\}/.test(v)
+}
+
+// Interval triggers saved before intervalSeconds existed carry intervalMs
+export function readLegacyIntervalSeconds(data: Record<string, unknown>): number | undefined {
+  const ms = parseFiniteNumber(data.intervalMs)
+  return ms === undefined ? undefined : ms / 1000
+}
+
+export function parseFiniteNumber(v: unknown): number | undefined {
+  if (typeof v === 'number' && Number.isFinite(v)) return v
+  if (typeof v === 'string') {
+    const trimmed = v.trim()
+    if (!trimmed) return undefined
+    const n = Number(trimmed)
+    if (Number.isFinite(n)) return n
+  }
+  return undefined
+}
+
+function isEmptyValue(v: unknown): boolean {
+  return v === undefined || v === null || (typeof v === 'string' && v.trim() === '')
+}
+
+// timer_trigger without scheduleMode predates cron support and runs on its interval
+export function isCronSchedule(data: Record<string, unknown>): boolean {
+  return data.scheduleMode === 'cron'
+}
+
+export function isFieldVisible(field: NodeField, data: Record<string, unknown>): boolean {
+  return field.visibleIf ? field.visibleIf(data) : true
+}
+
+// Data for a freshly added node of the given type.
+export function buildDefaultNodeData(type: string): Record<string, unknown> {
+  const data: Record<string, unknown> = { label: type, type }
+  for (const field of getNodeFields(type)) {
+    if (field.default !== undefined) data[field.name] = field.default
+  }
+  return data
+}
+
+// Patch applied when an existing node switches type: keeps whatever the
+// user already filled in and only seeds empty fields with defaults.
+export function buildTypeChangePatch(type: string, data: Record<string, unknown>): Record<string, unknown> {
+  const patch: Record<string, unknown> = { type }
+  for (const field of getNodeFields(type)) {
+    if (field.default !== undefined && isEmptyValue(data[field.name])) patch[field.name] = field.default
+  }
+  return patch
+}
+
+// Returns a short problem description for one field, or undefined when valid.
+export function validateNodeField(
+  field: NodeField,
+  data: Record<string, unknown>,
+  meta: MetaResponse | undefined,
+): string | undefined {
+  if (!isFieldVisible(field, data)) return undefined
+
+  const value = isEmptyValue(data[field.name]) ? (field.legacyValue?.(data) ?? data[field.name]) : data[field.name]
+  if (isEmptyValue(value)) {
+    return field.required ? `requires ${field.type === 'credential' || field.type === 'workflow' ? field.label : field.name}` : undefined
+  }
+  if (field.allowTemplate && isTemplateString(value)) return undefined
+
+  const isNumeric = field.type === 'number' || (field.type === 'select' && field.numeric)
+  if (!isNumeric) return undefined
+
+  const n = parseFiniteNumber(value)
+  if (n === undefined) return `${field.name} must be a number`
+
+  if (field.min !== undefined) {
+    if (field.exclusiveMin ? n <= field.min : n < field.min) {
+      return `${field.name} must be ${field.exclusiveMin ? '>' : '>='} ${field.min}`
+    }
+  }
+
+  const unit = field.unit ? ` ${field.unit}` : ''
+  if (field.max !== undefined && n > field.max) return `${field.name} exceeds max (${field.max}${unit})`
+
+  const metaMax = field.metaMax?.(meta, data)
+  if (metaMax !== undefined && n > metaMax) return `${field.name} exceeds max (${metaMax}${unit})`
+
+  return undefined
+}
+
+export function validateNodeData(
+  nodeId: string,
+  type: string,
+  data: Record<string, unknown>,
+  meta: MetaResponse | undefined,
+): string[] {
+  const issues: string[] = []
+  for (const field of getNodeFields(type)) {
+    const issue = validateNodeField(field, data, meta)
+    if (issue) issues.push(`${type} (${nodeId}) ${issue}`)
+  }
+  return issues
+}
+
 export function getCategoryColor(category: NodeCategory): string {
   switch (category) {
     case 'trigger': return '#8b5cf6'
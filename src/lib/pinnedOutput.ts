@@ -0,0 +1,69 @@
+import type { Node } from '@xyflow/react'
+import type { PathSegment } from './expressions'
+import { buildCallWorkflowOutput } from './subworkflow'
+import { buildWebhookOutput } from './webhook'
+
+// A sample output pinned on a node (typed in, or copied from a past execution's
+// nodeOutputs). It lives in node.data so it is saved, exported and versioned with the
+// node; the executor ignores it.
+export const PINNED_OUTPUT_KEY = 'pinnedOutput'
+
+export function getPinnedOutput(node: Node | undefined): unknown {
+  return (node?.data as Record<string, unknown> | undefined)?.[PINNED_OUTPUT_KEY]
+}
+
+export function hasPinnedOutput(node: Node | undefined): boolean {
+  return getPinnedOutput(node) !== undefined
+}
+
+// Best known shape of a node's output for pickers and linting: the pinned sample,
+// else what the node declares itself (a webhook's payload schema, a call's output
+// mapping), else nothing.
+export function getSampleOutput(node: Node | undefined): unknown {
+  const pinned = getPinnedOutput(node)
+  if (pinned !== undefined || !node) return pinned
+  const data = (node.data as Record<string, unknown> | undefined) ?? {}
+  if (data.type === 'webhook_trigger') return buildWebhookOutput(data)
+  if (data.type === 'call_workflow') return buildCallWorkflowOutput(data)
+  return undefined
+}
+
+export type OutputPath = {
+  // template path below output, e.g. body.items[0].id
+  path: string
+  segments: PathSegment[]
+  value: unknown
+}
+
+function formatPath(segments: PathSegment[]): string {
+  return segments
+    .map((s, i) =>
+      typeof s === 'number' ? `[${s}]` : /^[A-Za-z0-9_$-]+$/.test(s) ? (i === 0 ? s : `.${s}`) : `["${s}"]`,
+    )
+    .join('')
+}
+
+// Every field reachable in a sample, parents before children. Arrays only expose their
+// first element, which is usually enough to pick a path.
+export function listOutputPaths(sample: unknown, maxDepth = 4): OutputPath[] {
+  const paths: OutputPath[] = []
+  const walk = (value: unknown, segments: PathSegment[]) => {
+    if (segments.length > 0) paths.push({ path: formatPath(segments), segments, value })
+    if (segments.length >= maxDepth || !value || typeof value !== 'object') return
+    if (Array.isArray(value)) {
+      if (value.length > 0) walk(value[0], [...segments, 0])
+      return
+    }
+    for (const [k, v] of Object.entries(value as Record<string, unknown>)) walk(v, [...segments, k])
+  }
+  walk(sample, [])
+  return paths
+}
+
+export function previewValue(value: unknown, max = 32): string {
+  let text: string
+  if (Array.isArray(value)) text = `[${value.length} items]`
+  else if (value && typeof value === 'object') text = '{…}'
+  else text = JSON.stringify(value) ?? 'undefined'
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
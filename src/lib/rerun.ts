@@ -0,0 +1,93 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { Execution, RerunMode } from './api'
+import { getDownstreamIds, getNodeKind, getTriggerNodes, isTriggerNode } from './graph'
+import { isValueMovingType } from './riskPreview'
+
+// What a replay or resume would do, worked out from the run being repeated and the
+// workflow as it is now (re-runs always use the current definition).
+
+export type RerunNode = {
+  nodeId: string
+  type: string
+  // how the node ended in the original run; undefined when it never got there
+  previousStatus?: string
+}
+
+export type RerunPlan = {
+  mode: RerunMode
+  fromNodeId?: string
+  // nodes that execute again, in definition order
+  runs: RerunNode[]
+  // nodes whose saved output is handed to the re-run instead
+  reused: RerunNode[]
+  // value-moving nodes among `runs`; those that succeeded before move funds a second time
+  valueMoving: RerunNode[]
+  warnings: string[]
+  // why the re-run can't start, if it can't
+  error?: string
+}
+
+// Nodes a run can resume from
+export function getResumableNodeIds(execution: Execution): string[] {
+  return Object.entries(execution.nodeStatuses ?? {})
+    .filter(([, state]) => state?.status === 'failed')
+    .map(([nodeId]) => nodeId)
+}
+
+export function hasMovedFundsBefore(node: RerunNode): boolean {
+  return node.previousStatus === 'success'
+}
+
+export function planRerun(
+  execution: Execution,
+  definition: { nodes: Node[]; edges: Edge[] },
+  options: { mode: RerunMode; fromNodeId?: string; workflowUpdatedAt?: string },
+): RerunPlan {
+  const { nodes, edges } = definition
+  const statuses = execution.nodeStatuses ?? {}
+  const outputs = execution.nodeOutputs ?? {}
+  const describe = (n: Node): RerunNode => ({
+    nodeId: n.id,
+    type: getNodeKind(n),
+    previousStatus: statuses[n.id] ? String(statuses[n.id].status) : undefined,
+  })
+  const plan: RerunPlan = { mode: options.mode, fromNodeId: options.fromNodeId, runs: [], reused: [], valueMoving: [], warnings: [] }
+
+  if (options.workflowUpdatedAt && options.workflowUpdatedAt > execution.createdAt) {
+    plan.warnings.push('the workflow was edited after this run; the re-run uses the current version')
+  }
+
+  let runIds: Set<string>
+  if (options.mode === 'replay') {
+    const trigger = nodes.find((n) => n.id === execution.triggerNodeId) ?? getTriggerNodes(nodes)[0]
+    if (!trigger) return { ...plan, error: 'the workflow no longer has the trigger this run started from' }
+    runIds = getDownstreamIds(trigger.id, edges)
+    // the trigger doesn't fire again; its recorded payload starts the run
+    runIds.delete(trigger.id)
+    if (outputs[trigger.id] === undefined) {
+      return { ...plan, error: `no trigger payload was recorded for ${trigger.id}` }
+    }
+    plan.reused.push(describe(trigger))
+  } else {
+    const from = nodes.find((n) => n.id === options.fromNodeId)
+    if (!from) return { ...plan, error: `node ${options.fromNodeId ?? ''} is no longer in the workflow` }
+    if (statuses[from.id]?.status !== 'failed') return { ...plan, error: `${from.id} did not fail in this run` }
+    runIds = getDownstreamIds(from.id, edges)
+    for (const n of nodes) {
+      if (runIds.has(n.id) || outputs[n.id] === undefined) continue
+      plan.reused.push(describe(n))
+    }
+    // an input the resumed part reads from but that never produced anything
+    const missing = nodes.filter(
+      (n) => !runIds.has(n.id) && !isTriggerNode(n) && statuses[n.id]?.status !== 'skipped' && outputs[n.id] === undefined &&
+        edges.some((e) => e.source === n.id && runIds.has(e.target)),
+    )
+    if (missing.length) {
+      plan.warnings.push(`no saved output for ${missing.map((n) => n.id).join(', ')}; nodes reading from it get nothing`)
+    }
+  }
+
+  plan.runs = nodes.filter((n) => runIds.has(n.id)).map(describe)
+  plan.valueMoving = plan.runs.filter((n) => isValueMovingType(n.type))
+  return plan
+}
@@ -0,0 +1,268 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { CredentialSummary, MetaResponse, Workflow } from './api'
+import { describeCron, getCronError, isValidTimeZone, maxRunsPerDay } from './cron'
+import { getNodeIdsStartedBy, getNodeKind, getReachableNodeIds, getTriggerNodes } from './graph'
+import { getNodeFields, isCronSchedule, isTemplateString, parseFiniteNumber, readLegacyIntervalSeconds } from './nodeDocumentation'
+import { shortenAddress } from './solana'
+import { CALL_WORKFLOW_TYPE } from './subworkflow'
+import { findToken } from './tokens'
+
+// Nodes that can move funds out of a wallet, with the field holding the amount per run
+const VALUE_FIELDS: Record<string, string> = {
+  jupiter_swap: 'amount',
+  raydium_swap: 'amount',
+  pump_fun_buy: 'solAmount',
+  solana_transfer: 'amount',
+  solana_stake: 'amount',
+  lulo_lend: 'amount',
+  copy_trade: 'maxAmountPerTrade',
+  twap: 'totalAmount',
+  split_order: 'totalAmount',
+}
+
+export const VALUE_MOVING_TYPES = Object.keys(VALUE_FIELDS)
+
+export function isValueMovingType(type: string): boolean {
+  return type in VALUE_FIELDS
+}
+
+export type ExposureItem = {
+  nodeId: string
+  type: string
+  walletKey: string
+  walletLabel: string
+  // undefined when the amount is a template resolved at runtime
+  amount?: number
+  unit: string
+  // per-transaction safety cap from /meta, when one applies
+  cap?: number
+  // what is assumed at risk per run: the amount, else the cap, else unknown
+  worstCase?: number
+  // runs per day across every trigger that reaches the node; undefined when unbounded
+  runsPerDay?: number
+  note?: string
+}
+
+export type WalletExposure = {
+  key: string
+  label: string
+  items: ExposureItem[]
+  // worst case per run / per day, summed by unit; undefined means unbounded
+  perRun: Record<string, number | undefined>
+  perDay: Record<string, number | undefined>
+}
+
+export type RiskSummary = {
+  items: ExposureItem[]
+  wallets: WalletExposure[]
+  // summed over all triggers; undefined when any is event-driven, which has no upper bound
+  runsPerDay?: number
+  runsPerDayNote: string
+  warnings: string[]
+}
+
+function unitForMint(mint: unknown, fallback: string): string {
+  if (typeof mint !== 'string' || !mint.trim()) return fallback
+  if (isTemplateString(mint)) return 'tokens'
+  return findToken(mint)?.symbol ?? shortenAddress(mint)
+}
+
+function describeUnit(type: string, data: Record<string, unknown>): string {
+  switch (type) {
+    case 'jupiter_swap':
+    case 'raydium_swap':
+    case 'twap':
+      return unitForMint(data.inputMint, 'tokens')
+    case 'solana_transfer':
+      return unitForMint(data.mint, 'SOL')
+    case 'lulo_lend':
+      return 'USDC'
+    case 'split_order':
+      return 'units'
+    default:
+      return 'SOL'
+  }
+}
+
+function capFor(type: string, data: Record<string, unknown>, meta: MetaResponse | undefined): number | undefined {
+  if (!meta) return undefined
+  switch (type) {
+    case 'jupiter_swap':
+      return meta.jupiterSwapMaxAmount
+    case 'solana_transfer':
+      return data.mint ? meta.solanaTransferMaxTokenAmount : meta.solanaTransferMaxSol
+    case 'solana_stake':
+      return meta.solanaStakeMaxSol
+    default:
+      return undefined
+  }
+}
+
+function fieldValue(type: string, data: Record<string, unknown>, name: string): unknown {
+  return data[name] ?? getNodeFields(type).find((f) => f.name === name)?.default
+}
+
+// Rough wall-clock length of one run: the time a run spends waiting in delays and
+// scheduled slices. Only matters when overlapping runs are not allowed.
+function estimateRunSeconds(nodes: Node[]): number {
+  let seconds = 0
+  for (const n of nodes) {
+    const type = getNodeKind(n)
+    const data = (n.data as Record<string, unknown>) || {}
+    const num = (name: string) => parseFiniteNumber(fieldValue(type, data, name)) ?? 0
+    if (type === 'twap') seconds += Math.max(num('intervals') - 1, 0) * num('intervalMinutes') * 60
+    if (type === 'split_order') seconds += (Math.max(num('chunks') - 1, 0) * num('delayBetweenMs')) / 1000
+    if (type === 'delay') seconds += num('ms') / 1000
+  }
+  return seconds
+}
+
+// Runs per day started by one trigger; `nodes` are the ones that trigger reaches
+function projectRunsPerDay(
+  trigger: Node,
+  nodes: Node[],
+  overlapPolicy: Workflow['overlapPolicy'],
+): { runsPerDay?: number; note: string } {
+  const type = getNodeKind(trigger)
+  const data = (trigger.data as Record<string, unknown>) || {}
+
+  if (type === 'onchain_trigger') {
+    return { note: `${type} runs on every matching on-chain event, so there is no upper bound per day` }
+  }
+  if (type === 'webhook_trigger') {
+    return { note: `${type} runs on every verified request, so there is no upper bound per day` }
+  }
+
+  const policy = overlapPolicy ?? 'skip'
+  const runSeconds = estimateRunSeconds(nodes)
+
+  if (type === 'timer_trigger' && isCronSchedule(data)) {
+    const cron = typeof data.cron === 'string' ? data.cron : ''
+    const timezone = typeof data.timezone === 'string' && isValidTimeZone(data.timezone) ? data.timezone : 'UTC'
+    if (getCronError(cron)) return { note: `${type} has no valid cron expression` }
+    const fires = maxRunsPerDay(cron, timezone)
+    // a run that outlasts the gap between fires makes skip/queue drop or delay the next one
+    const runsPerDay = policy === 'allow' || runSeconds <= 0 ? fires : Math.min(fires, Math.ceil((24 * 60 * 60) / runSeconds))
+    return { runsPerDay, note: `${type} runs ${describeCron(cron)} (${timezone}): up to ${runsPerDay} runs per day` }
+  }
+
+  const interval = parseFiniteNumber(data.intervalSeconds) ?? readLegacyIntervalSeconds(data)
+  if (interval === undefined || interval <= 0) return { note: `${type} has no valid interval` }
+
+  // with skip/queue runs never overlap, so a long run stretches the effective interval
+  const effective = policy === 'allow' ? interval : Math.max(interval, runSeconds)
+  const runsPerDay = Math.ceil((24 * 60 * 60) / effective)
+  const checks = type === 'timer_trigger' ? `fires every ${interval}s` : `checks every ${interval}s and may fire on each check`
+  const overlap =
+    effective > interval
+      ? `; runs take about ${Math.round(runSeconds)}s and overlap policy "${policy}" keeps them from overlapping`
+      : policy === 'allow'
+        ? '; overlap policy "allow" lets runs stack up concurrently'
+        : ''
+  return { runsPerDay, note: `${type} ${checks}${overlap}: up to ${runsPerDay} runs per day` }
+}
+
+function walletFor(data: Record<string, unknown>, credentials: CredentialSummary[] | undefined): { key: string; label: string } {
+  const id = typeof data.credentialId === 'string' ? data.credentialId : ''
+  if (!id) return { key: '', label: 'no wallet selected (backend default)' }
+  const cred = credentials?.find((c) => c.id === id)
+  if (!cred) return { key: id, label: `unknown credential ${id}` }
+  return { key: id, label: cred.publicKey ? `${cred.name} (${shortenAddress(cred.publicKey)})` : cred.name }
+}
+
+function addTo(totals: Record<string, number | undefined>, unit: string, amount: number | undefined) {
+  if (unit in totals && totals[unit] === undefined) return
+  totals[unit] = amount === undefined ? undefined : (totals[unit] ?? 0) + amount
+}
+
+// Worst-case spend of a definition if it were enabled now. Only nodes reachable from a
+// trigger count; branches are assumed to all run, and a node reached from several
+// triggers runs whenever any of them fires.
+export function buildRiskSummary(
+  definition: { nodes: Node[]; edges: Edge[] },
+  options: { meta?: MetaResponse; overlapPolicy?: Workflow['overlapPolicy']; credentials?: CredentialSummary[] },
+): RiskSummary {
+  const { nodes, edges } = definition
+  const reachable = getReachableNodeIds(nodes, edges)
+  const projections = getTriggerNodes(nodes).map((trigger) => {
+    const started = getNodeIdsStartedBy(trigger.id, edges)
+    const startedNodes = nodes.filter((n) => started.has(n.id))
+    return { started, ...projectRunsPerDay(trigger, startedNodes, options.overlapPolicy) }
+  })
+  const sumRuns = (list: typeof projections) =>
+    list.some((p) => p.runsPerDay === undefined) ? undefined : list.reduce((acc, p) => acc + p.runsPerDay!, 0)
+  const runsPerDay = projections.length ? sumRuns(projections) : undefined
+  const note = projections.length ? projections.map((p) => p.note).join('; ') : 'no trigger'
+  const warnings: string[] = []
+  const items: ExposureItem[] = []
+
+  for (const n of nodes) {
+    const type = getNodeKind(n)
+    const amountField = VALUE_FIELDS[type]
+    if (!amountField || !reachable.has(n.id)) continue
+
+    const data = (n.data as Record<string, unknown>) || {}
+    const raw = fieldValue(type, data, amountField)
+    const amount = isTemplateString(raw) ? undefined : parseFiniteNumber(raw)
+    const cap = capFor(type, data, options.meta)
+    const wallet = walletFor(data, options.credentials)
+    const item: ExposureItem = {
+      nodeId: n.id,
+      type,
+      walletKey: wallet.key,
+      walletLabel: wallet.label,
+      amount,
+      unit: describeUnit(type, data),
+      cap,
+      worstCase: amount ?? cap,
+      runsPerDay: sumRuns(projections.filter((p) => p.started.has(n.id))),
+    }
+
+    if (amount === undefined) {
+      item.note = cap !== undefined ? `amount comes from ${String(raw)}; capped at ${cap}` : `amount comes from ${String(raw)} and has no cap`
+    } else if (cap !== undefined && amount > cap) {
+      warnings.push(`${type} (${n.id}) amount ${amount} is above the ${cap} ${item.unit} cap and will be rejected`)
+    }
+    if (type === 'copy_trade') {
+      item.note = 'per copied trade; the target wallet decides how often it trades'
+      item.worstCase = undefined
+    }
+    items.push(item)
+  }
+
+  const byWallet = new Map<string, WalletExposure>()
+  for (const item of items) {
+    let wallet = byWallet.get(item.walletKey)
+    if (!wallet) {
+      wallet = { key: item.walletKey, label: item.walletLabel, items: [], perRun: {}, perDay: {} }
+      byWallet.set(item.walletKey, wallet)
+    }
+    wallet.items.push(item)
+    addTo(wallet.perRun, item.unit, item.worstCase)
+    addTo(
+      wallet.perDay,
+      item.unit,
+      item.worstCase === undefined || item.runsPerDay === undefined ? undefined : item.worstCase * item.runsPerDay,
+    )
+  }
+
+  if (items.some((i) => i.worstCase === undefined)) {
+    warnings.push('some amounts are only known at runtime and have no cap, so exposure is unbounded')
+  }
+  for (const p of projections) {
+    if (items.length > 0 && p.runsPerDay === undefined) warnings.push(p.note)
+  }
+  for (const n of nodes) {
+    if (getNodeKind(n) !== CALL_WORKFLOW_TYPE || !reachable.has(n.id)) continue
+    warnings.push(`${CALL_WORKFLOW_TYPE} (${n.id}) runs another workflow; its spend is not included here`)
+  }
+
+  return { items, wallets: [...byWallet.values()], runsPerDay, runsPerDayNote: note, warnings }
+}
+
+export function formatExposure(totals: Record<string, number | undefined>): string {
+  const parts = Object.entries(totals).map(([unit, v]) =>
+    v === undefined ? `unbounded ${unit}` : `${Number(v.toFixed(6)).toLocaleString()} ${unit}`,
+  )
+  return parts.length ? parts.join(' + ') : 'nothing'
+}
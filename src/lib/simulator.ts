@@ -0,0 +1,211 @@
+import type { Edge, Node } from '@xyflow/react'
+import { evaluateTemplateValue, type TemplateScope } from './expressions'
+import { getEdgeBranch, getNodeKind, isTriggerNode } from './graph'
+import { getNodeBranches, getNodeDoc, getNodeFields, isFieldVisible, nestOutputs, parseFiniteNumber } from './nodeDocumentation'
+import { getPinnedOutput } from './pinnedOutput'
+import { buildCallWorkflowOutput } from './subworkflow'
+import { buildWebhookOutput } from './webhook'
+
+// Dry run of a definition entirely in the browser: nothing is sent to the backend.
+// Each node "outputs" a sample (typed into the simulator, pinned on the node, or made
+// up from its documented outputs), templates are resolved against those samples and
+// `if` nodes pick a branch.
+
+export type ConditionOp = 'truthy' | 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'
+
+// where a step's output came from
+export type SampleSource = 'provided' | 'pinned' | 'doc' | 'computed'
+
+export type SimulationStep = {
+  nodeId: string
+  type: string
+  // skipped: reachable from the firing trigger but not on the branch that was taken
+  status: 'ran' | 'skipped'
+  inputs: Record<string, unknown>
+  output?: unknown
+  outputSource?: SampleSource
+  branch?: string
+  errors: string[]
+}
+
+export type SimulationResult = {
+  steps: SimulationStep[]
+  // node ids that ran, in order
+  path: string[]
+  takenEdgeIds: string[]
+  errors: string[]
+}
+
+export type SimulationOptions = {
+  // sample outputs keyed by node id; they win over pinned data, and anything
+  // without either is derived from the docs
+  samples?: Record<string, unknown>
+  workflowId?: string
+  // trigger that fires; defaults to the first one
+  triggerId?: string
+}
+
+function isEmpty(v: unknown): boolean {
+  return v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0)
+}
+
+// Same semantics as the backend `if` node: numbers compare numerically when both
+// sides parse, eq/neq fall back to string comparison, ordering needs numbers.
+export function evaluateCondition(left: unknown, op: string, right: unknown): { passed: boolean; error?: string } {
+  if (op === 'truthy') return { passed: !isEmpty(left) && left !== false && left !== 0 && left !== 'false' }
+
+  const l = parseFiniteNumber(left)
+  const r = parseFiniteNumber(right)
+  const numeric = l !== undefined && r !== undefined
+
+  switch (op) {
+    case 'eq':
+      return { passed: numeric ? l === r : String(left ?? '') === String(right ?? '') }
+    case 'neq':
+      return { passed: numeric ? l !== r : String(left ?? '') !== String(right ?? '') }
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (!numeric) return { passed: false, error: `${op} needs two numbers, got ${JSON.stringify(left)} and ${JSON.stringify(right)}` }
+      const passed = op === 'gt' ? l > r : op === 'gte' ? l >= r : op === 'lt' ? l < r : l <= r
+      return { passed }
+    }
+    default:
+      return { passed: false, error: `unknown condition "${op}"` }
+  }
+}
+
+// Placeholder for one documented output, guessed from its name
+function sampleFor(name: string, inputs: Record<string, unknown>): unknown {
+  if (name in inputs && !isEmpty(inputs[name])) return inputs[name]
+  if (/^(triggered|passed|confirmed|succeeded)$/.test(name)) return true
+  if (/(timestamp|At)$/.test(name)) return new Date(0).toISOString()
+  if (/(signature|Signature)$/.test(name)) return `sim-${name}`
+  if (/(Mint|feePayer)$/.test(name)) return `sim-${name}`
+  if (/^(tokens|transactions|warnings|matchedWallets|schedule|route)$/.test(name)) return []
+  if (/^(headers|body)$/.test(name)) return {}
+  if (/^(status|err|direction|action|event|name|symbol|logoUri|walletAddress|from|to|message|messageId|priceFeedId|op|type|source|description)$/.test(name)) {
+    return name === 'status' ? 200 : `sample ${name}`
+  }
+  return 1
+}
+
+export function buildDocSample(type: string, inputs: Record<string, unknown> = {}): Record<string, unknown> {
+  if (type === 'webhook_trigger') return buildWebhookOutput(inputs)
+  if (type === 'call_workflow') return buildCallWorkflowOutput(inputs)
+  // dotted names are nested outputs; guess from the last part ("parsed.tokenOutputMint")
+  return nestOutputs((getNodeDoc(type)?.outputs ?? []).map((name) => [name, sampleFor(name.split('.').pop()!, inputs)]))
+}
+
+function resolveInputs(node: Node, scope: TemplateScope): { inputs: Record<string, unknown>; errors: string[] } {
+  const data = ((node.data as Record<string, unknown>) || {}) as Record<string, unknown>
+  const inputs: Record<string, unknown> = {}
+  const errors: string[] = []
+  for (const field of getNodeFields(getNodeKind(node))) {
+    if (!isFieldVisible(field, data)) continue
+    const raw = data[field.name] ?? field.default
+    if (raw === undefined) continue
+    const r = evaluateTemplateValue(raw, scope)
+    inputs[field.name] = r.value
+    errors.push(...r.errors.map((e) => `${field.name}: ${e}`))
+  }
+  return { inputs, errors }
+}
+
+// Walks nodes in dependency order so every upstream output exists before a node runs.
+// A node runs when at least one incoming edge was taken.
+export function simulateWorkflow(definition: { nodes: Node[]; edges: Edge[] }, options: SimulationOptions = {}): SimulationResult {
+  const { nodes, edges } = definition
+  const result: SimulationResult = { steps: [], path: [], takenEdgeIds: [], errors: [] }
+
+  const triggers = nodes.filter(isTriggerNode)
+  const trigger = triggers.find((n) => n.id === options.triggerId) ?? triggers[0]
+  if (!trigger) {
+    result.errors.push('add a trigger node to simulate')
+    return result
+  }
+
+  const byId = new Map(nodes.map((n) => [n.id, n]))
+  const outgoing = new Map<string, Edge[]>()
+  for (const e of edges) {
+    if (!byId.has(e.source) || !byId.has(e.target)) continue
+    outgoing.set(e.source, [...(outgoing.get(e.source) ?? []), e])
+  }
+
+  // subgraph this trigger starts and its in-degrees; other triggers stay idle
+  const reachable = new Set([trigger.id])
+  const queue = [trigger.id]
+  while (queue.length) {
+    for (const e of outgoing.get(queue.shift()!) ?? []) {
+      if (reachable.has(e.target)) continue
+      reachable.add(e.target)
+      queue.push(e.target)
+    }
+  }
+  const pending = new Map<string, number>()
+  for (const id of reachable) pending.set(id, 0)
+  for (const e of edges) {
+    if (reachable.has(e.source) && reachable.has(e.target)) pending.set(e.target, pending.get(e.target)! + 1)
+  }
+
+  const outputs: Record<string, unknown> = {}
+  const scope: TemplateScope = { outputs, vars: options.workflowId ? { workflowId: options.workflowId } : {} }
+  const active = new Set([trigger.id])
+  const ready = [trigger.id]
+  const taken = new Set<string>()
+
+  while (ready.length) {
+    const node = byId.get(ready.shift()!)!
+    const type = getNodeKind(node)
+
+    if (!active.has(node.id)) {
+      result.steps.push({ nodeId: node.id, type, status: 'skipped', inputs: {}, errors: [] })
+    } else {
+      const { inputs, errors } = resolveInputs(node, scope)
+      const step: SimulationStep = { nodeId: node.id, type, status: 'ran', inputs, errors }
+
+      if (type === 'if') {
+        const op = String(inputs.op ?? 'truthy')
+        const { passed, error } = evaluateCondition(inputs.left, op, inputs.right)
+        if (error) errors.push(error)
+        step.output = { passed, op, left: inputs.left, right: inputs.right }
+        step.outputSource = 'computed'
+        step.branch = passed ? 'true' : 'false'
+      } else if (options.samples && node.id in options.samples) {
+        step.output = options.samples[node.id]
+        step.outputSource = 'provided'
+      } else if (getPinnedOutput(node) !== undefined) {
+        step.output = getPinnedOutput(node)
+        step.outputSource = 'pinned'
+      } else {
+        step.output = buildDocSample(type, inputs)
+        step.outputSource = 'doc'
+      }
+
+      outputs[node.id] = step.output
+      result.steps.push(step)
+      result.path.push(node.id)
+
+      for (const e of outgoing.get(node.id) ?? []) {
+        const branch = getEdgeBranch(e, node)
+        if (getNodeBranches(type).length > 0 && branch !== step.branch) continue
+        taken.add(e.id)
+        active.add(e.target)
+      }
+    }
+
+    for (const e of outgoing.get(node.id) ?? []) {
+      const left = pending.get(e.target)! - 1
+      pending.set(e.target, left)
+      if (left === 0) ready.push(e.target)
+    }
+  }
+
+  // whatever never became ready sits on a cycle
+  const stuck = [...pending.entries()].filter(([id, n]) => n > 0 && !result.steps.some((s) => s.nodeId === id)).map(([id]) => id)
+  if (stuck.length) result.errors.push(`stopped at a cycle through ${stuck.join(', ')}`)
+
+  result.takenEdgeIds = edges.filter((e) => taken.has(e.id)).map((e) => e.id)
+  return result
+}
@@ -0,0 +1,45 @@
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+const BASE58_CHARS = /^[1-9A-HJ-NP-Za-km-z]+$/
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112'
+export const USDC_MINT = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+
+// Byte length of a base58 string, or undefined if it has characters outside the alphabet
+export function base58ByteLength(value: string): number | undefined {
+  if (!BASE58_CHARS.test(value)) return undefined
+  const bytes: number[] = []
+  for (const ch of value) {
+    let carry = BASE58_ALPHABET.indexOf(ch)
+    for (let i = 0; i < bytes.length; i += 1) {
+      carry += bytes[i] * 58
+      bytes[i] = carry & 0xff
+      carry >>= 8
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff)
+      carry >>= 8
+    }
+  }
+  // each leading '1' is a leading zero byte
+  const zeros = value.length - value.replace(/^1+/, '').length
+  return bytes.length + zeros
+}
+
+// Why a value isn't a Solana public key (32 bytes, base58), or undefined if it is
+export function getAddressError(value: string): string | undefined {
+  const v = value.trim()
+  if (!v) return 'empty address'
+  const bad = v.match(/[^1-9A-HJ-NP-Za-km-z]/)
+  if (bad) return `"${bad[0]}" is not a base58 character (0, O, I and l are never used)`
+  if (v.length < 32 || v.length > 44) return `${v.length} characters; Solana addresses are 32–44`
+  const length = base58ByteLength(v)
+  return length === 32 ? undefined : `decodes to ${length} bytes; Solana addresses are 32`
+}
+
+export function isSolanaAddress(v: unknown): boolean {
+  return typeof v === 'string' && getAddressError(v) === undefined
+}
+
+export function shortenAddress(address: string, chars = 4): string {
+  return address.length <= chars * 2 + 3 ? address : `${address.slice(0, chars)}…${address.slice(-chars)}`
+}
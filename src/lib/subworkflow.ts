@@ -0,0 +1,86 @@
+import type { Node } from '@xyflow/react'
+import { getNodeKind } from './graph'
+import { readDefinition } from './graphDiff'
+
+// call_workflow runs another workflow as a step. The child starts at its first trigger,
+// whose output becomes { input, parentExecutionId, parentWorkflowId }, so child nodes
+// read the mapped inputs as {{nodes.<trigger>.output.input.<name>}}. outputMapping picks
+// values back out of the child run: { "safe": "n4.passed" }.
+
+export const CALL_WORKFLOW_TYPE = 'call_workflow'
+
+export type WorkflowCall = {
+  nodeId: string
+  workflowId: string
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+export function getWorkflowCalls(definition: { nodes: Node[] }): WorkflowCall[] {
+  const calls: WorkflowCall[] = []
+  for (const n of definition.nodes) {
+    if (getNodeKind(n) !== CALL_WORKFLOW_TYPE) continue
+    const id = (n.data as Record<string, unknown>)?.childWorkflowId
+    if (typeof id === 'string' && id) calls.push({ nodeId: n.id, workflowId: id })
+  }
+  return calls
+}
+
+// Problems with an output mapping: every value must be "<childNodeId>.<path>"
+export function getOutputMappingErrors(mapping: unknown): string[] {
+  if (mapping === undefined || mapping === null || mapping === '') return []
+  if (!isPlainObject(mapping)) return ['outputMapping must be an object, e.g. { "safe": "n4.passed" }']
+  return Object.entries(mapping)
+    .filter(([, v]) => typeof v !== 'string' || !/^[A-Za-z0-9_-]+(\.|\[|$)/.test(v))
+    .map(([k]) => `outputMapping.${k} must name a child node output, e.g. "n4.passed"`)
+}
+
+// What the node outputs once the child finishes; outputs follows the mapping's names
+export function buildCallWorkflowOutput(data: Record<string, unknown>): Record<string, unknown> {
+  const mapping = isPlainObject(data.outputMapping) ? data.outputMapping : {}
+  return {
+    childExecutionId: 'sim-child-execution',
+    status: 'success',
+    outputs: Object.fromEntries(Object.keys(mapping).map((k) => [k, null])),
+  }
+}
+
+// Follows `calls` (made by workflow `rootId`) through the saved definitions of the
+// workflows they reach and reports, per calling node, the chain of workflow ids that
+// comes back to one already on the path. `load` returns a saved definition.
+export async function findCallCycles(
+  rootId: string,
+  calls: WorkflowCall[],
+  load: (workflowId: string) => Promise<unknown>,
+): Promise<Record<string, string[]>> {
+  const definitions = new Map<string, Promise<WorkflowCall[]>>()
+  const callsOf = (id: string) => {
+    let pending = definitions.get(id)
+    if (!pending) {
+      pending = load(id).then(
+        (def) => (def === undefined ? [] : getWorkflowCalls(readDefinition(def))),
+        () => [],
+      )
+      definitions.set(id, pending)
+    }
+    return pending
+  }
+
+  const walk = async (id: string, path: string[]): Promise<string[] | undefined> => {
+    if (path.includes(id)) return [...path.slice(path.indexOf(id)), id]
+    for (const call of await callsOf(id)) {
+      const cycle = await walk(call.workflowId, [...path, id])
+      if (cycle) return cycle
+    }
+    return undefined
+  }
+
+  const cycles: Record<string, string[]> = {}
+  for (const call of calls) {
+    const cycle = await walk(call.workflowId, [rootId])
+    if (cycle) cycles[call.nodeId] = cycle
+  }
+  return cycles
+}
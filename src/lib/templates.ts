@@ -33,17 +33,17 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'dexscreener_price', type: 'dexscreener_price', pairAddress: '' },
+        data: { label: 'dexscreener_price', type: 'dexscreener_price', mint: '' },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.priceUsd}} > 1.0' },
+        data: { label: 'if', type: 'if', left: '{{n2.priceUsd}}', op: 'gt', right: '1.0' },
       },
       {
         id: 'n4',
         position: { x: 0, y: 360 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '🚨 Price Alert! Token is now ${{n2.priceUsd}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '🚨 Price Alert! Token is now ${{n2.priceUsd}}' },
       },
     ],
     edges: [
@@ -67,12 +67,12 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'whale_alert', type: 'whale_alert', walletAddress: '', thresholdSol: 100 },
+        data: { label: 'whale_alert', type: 'whale_alert', mint: '', minAmount: 10000 },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '🐋 Whale Alert! Large transaction detected from {{n2.walletAddress}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '🐋 Whale Alert! Large transaction detected from {{n2.from}}' },
       },
     ],
     edges: [
@@ -100,7 +100,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '📊 Volume Alert! 24h volume: ${{n2.volume24h}} exceeds threshold' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '📊 Volume Alert! 24h volume: ${{n2.volume24h}} exceeds threshold' },
       },
     ],
     edges: [
@@ -123,7 +123,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '📈 SOL just crossed above $100!' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '📈 SOL just crossed above $100!' },
       },
     ],
     edges: [
@@ -152,7 +152,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '💰 Portfolio Update\nTotal Value: ${{n2.totalValueUsd}}\nSOL: {{n2.solBalance}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '💰 Portfolio Update\nTotal Value: ${{n2.totalValueUsd}}\nSOL: {{n2.solBalance}}' },
       },
     ],
     edges: [
@@ -180,12 +180,12 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.solBalance}} < 1' },
+        data: { label: 'if', type: 'if', left: '{{n2.solBalance}}', op: 'lt', right: '1' },
       },
       {
         id: 'n4',
         position: { x: 0, y: 360 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '⚠️ Low Balance Alert! SOL balance: {{n2.solBalance}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '⚠️ Low Balance Alert! SOL balance: {{n2.solBalance}}' },
       },
     ],
     edges: [
@@ -214,7 +214,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '👥 Holder Update\nTotal Holders: {{n2.holderCount}}\nTop 10 Own: {{n2.top10Percentage}}%' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '👥 Holder Update\nTotal Holders: {{n2.holderCount}}\nTop 10 Own: {{n2.top10Percentage}}%' },
       },
     ],
     edges: [
@@ -239,17 +239,17 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'rug_check', type: 'rug_check', mint: '', minLiquidityUsd: 10000, maxTop10HolderPct: 50, minTokenAgeHours: 24 },
+        data: { label: 'rug_check', type: 'rug_check', mint: '', minTokenAgeMinutes: 1440, maxTopHolderPercentage: 50 },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.passed}} === false' },
+        data: { label: 'if', type: 'if', left: '{{n2.passed}}', op: 'eq', right: 'false' },
       },
       {
         id: 'n4',
         position: { x: 0, y: 360 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '🚨 RUG WARNING!\nToken: {{n2.mint}}\nReason: {{n2.reason}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '🚨 RUG WARNING!\nWarnings: {{n2.warnings}}\nToken age: {{n2.tokenAgeMinutes}} min' },
       },
     ],
     edges: [
@@ -278,12 +278,12 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.passed}} === false' },
+        data: { label: 'if', type: 'if', left: '{{n2.passed}}', op: 'eq', right: 'false' },
       },
       {
         id: 'n4',
         position: { x: 0, y: 360 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '⚠️ Low Liquidity Alert!\nCurrent: ${{n2.liquidityUsd}}\nThreshold: $50,000' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '⚠️ Low Liquidity Alert!\nCurrent: ${{n2.liquidity}}\nThreshold: $50,000' },
       },
     ],
     edges: [
@@ -314,7 +314,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.solBalance}} > 0.1' },
+        data: { label: 'if', type: 'if', left: '{{n2.solBalance}}', op: 'gt', right: '0.1' },
       },
       {
         id: 'n4',
@@ -332,7 +332,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n5',
         position: { x: 0, y: 480 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '✅ DCA Buy Complete!\nBought with 0.05 SOL\nTx: {{n4.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '✅ DCA Buy Complete!\nBought with 0.05 SOL\nTx: {{n4.txSignature}}' },
       },
     ],
     edges: [
@@ -357,12 +357,12 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'dexscreener_price', type: 'dexscreener_price', pairAddress: '' },
+        data: { label: 'dexscreener_price', type: 'dexscreener_price', mint: '' },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'stop_loss', type: 'stop_loss', entryPrice: 1.0, stopLossPercent: 10 },
+        data: { label: 'stop_loss', type: 'stop_loss', credentialId: '', mint: '', triggerPriceUsd: 0.9, sellPercentage: 100 },
       },
       {
         id: 'n4',
@@ -380,7 +380,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n5',
         position: { x: 0, y: 480 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '🛑 Stop Loss Triggered!\nSold at ${{n2.priceUsd}}\nTx: {{n4.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '🛑 Stop Loss Triggered!\nSold at ${{n2.priceUsd}}\nTx: {{n4.txSignature}}' },
       },
     ],
     edges: [
@@ -405,12 +405,12 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'dexscreener_price', type: 'dexscreener_price', pairAddress: '' },
+        data: { label: 'dexscreener_price', type: 'dexscreener_price', mint: '' },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'take_profit', type: 'take_profit', entryPrice: 1.0, takeProfitPercent: 50 },
+        data: { label: 'take_profit', type: 'take_profit', credentialId: '', mint: '', triggerPriceUsd: 1.5, sellPercentage: 100 },
       },
       {
         id: 'n4',
@@ -428,7 +428,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n5',
         position: { x: 0, y: 480 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '🎯 Take Profit Hit!\nSold at ${{n2.priceUsd}} (+50%)\nTx: {{n4.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '🎯 Take Profit Hit!\nSold at ${{n2.priceUsd}} (+50%)\nTx: {{n4.txSignature}}' },
       },
     ],
     edges: [
@@ -458,7 +458,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '📉 Trailing Stop Triggered!\nSold at {{n2.triggerPrice}}\nHigh was: {{n2.highPrice}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '📉 Trailing Stop Triggered!\nSold at {{n2.triggerPrice}}\nHigh was: {{n2.highPrice}}' },
       },
     ],
     edges: [
@@ -481,12 +481,12 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'limit_order', type: 'limit_order', credentialId: '', mint: '', side: 'buy', targetPrice: 0.5, amount: 1 },
+        data: { label: 'limit_order', type: 'limit_order', credentialId: '', mint: '', side: 'buy', targetPriceUsd: 0.5, amount: 1 },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '✅ Limit Order Filled!\nBought at ${{n2.executionPrice}}\nTx: {{n2.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '✅ Limit Order Filled!\nPrice: ${{n2.currentPriceUsd}}' },
       },
     ],
     edges: [
@@ -514,7 +514,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '📊 TWAP Order Executed\nChunk {{n2.currentInterval}}/{{n2.totalIntervals}}\nAmount: {{n2.chunkAmount}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '📊 TWAP Order Executed\nAmount per interval: {{n2.amountPerInterval}}' },
       },
     ],
     edges: [
@@ -544,17 +544,17 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.solBalance}} > 0.1' },
+        data: { label: 'if', type: 'if', left: '{{n2.solBalance}}', op: 'gt', right: '0.1' },
       },
       {
         id: 'n4',
         position: { x: 0, y: 360 },
-        data: { label: 'solana_restake', type: 'solana_restake', credentialId: '' },
+        data: { label: 'solana_restake', type: 'solana_restake', credentialId: '', amount: 0.1 },
       },
       {
         id: 'n5',
         position: { x: 0, y: 480 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '♻️ Auto-Restake Complete!\nRestaked rewards\nTx: {{n4.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '♻️ Auto-Restake Complete!\nRestaked rewards\nTx: {{n4.txSignature}}' },
       },
     ],
     edges: [
@@ -579,32 +579,32 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n2',
         position: { x: 0, y: 120 },
-        data: { label: 'parse_transaction', type: 'parse_transaction' },
+        data: { label: 'parse_transaction', type: 'parse_transaction', signature: '{{n1.signature}}' },
       },
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.type}} === "SWAP"' },
+        data: { label: 'if', type: 'if', left: '{{n2.parsed.type}}', op: 'eq', right: 'SWAP' },
       },
       {
         id: 'n4',
         position: { x: 0, y: 360 },
-        data: { label: 'rug_check', type: 'rug_check', mint: '{{n2.tokenOutputMint}}' },
+        data: { label: 'rug_check', type: 'rug_check', mint: '{{n2.parsed.tokenOutputMint}}' },
       },
       {
         id: 'n5',
         position: { x: 0, y: 480 },
-        data: { label: 'if', type: 'if', condition: '{{n4.isRugPull}} === false' },
+        data: { label: 'if', type: 'if', left: '{{n4.passed}}', op: 'eq', right: 'true' },
       },
       {
         id: 'n6',
         position: { x: 0, y: 600 },
-        data: { label: 'jupiter_swap', type: 'jupiter_swap', credentialId: '', inputMint: 'So11111111111111111111111111111111111111112', outputMint: '{{n2.tokenOutputMint}}', amount: 0.1, slippageBps: 300 },
+        data: { label: 'jupiter_swap', type: 'jupiter_swap', credentialId: '', inputMint: 'So11111111111111111111111111111111111111112', outputMint: '{{n2.parsed.tokenOutputMint}}', amount: 0.1, slippageBps: 300 },
       },
       {
         id: 'n7',
         position: { x: 0, y: 720 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '🔄 Copy Trade Executed!\n\nCopied swap from whale\nBought: {{n2.tokenOutputMint}}\nAmount: {{n6.outputAmount}}\nTx: {{n6.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '🔄 Copy Trade Executed!\n\nCopied swap from whale\nBought: {{n2.parsed.tokenOutputMint}}\nAmount: {{n6.outputAmount}}\nTx: {{n6.txSignature}}' },
       },
     ],
     edges: [
@@ -636,7 +636,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n3',
         position: { x: 0, y: 240 },
-        data: { label: 'if', type: 'if', condition: '{{n2.priceImpactPct}} < 1' },
+        data: { label: 'if', type: 'if', left: '{{n2.priceImpactPct}}', op: 'lt', right: '1' },
       },
       {
         id: 'n4',
@@ -654,7 +654,7 @@ export const workflowTemplates: WorkflowTemplate[] = [
       {
         id: 'n5',
         position: { x: 0, y: 480 },
-        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', message: '✅ Low Slippage Trade!\nPrice Impact: {{n2.priceImpactPct}}%\nTx: {{n4.txSignature}}' },
+        data: { label: 'discord_webhook', type: 'discord_webhook', credentialId: '', content: '✅ Low Slippage Trade!\nPrice Impact: {{n2.priceImpactPct}}%\nTx: {{n4.txSignature}}' },
       },
     ],
     edges: [
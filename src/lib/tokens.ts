@@ -0,0 +1,49 @@
+import { SOL_MINT, USDC_MINT } from './solana'
+
+export type TokenInfo = {
+  symbol: string
+  name: string
+  mint: string
+  decimals: number
+}
+
+// Bundled so lookups work offline; only well-known mints, anything else shows as unknown.
+export const KNOWN_TOKENS: TokenInfo[] = [
+  { symbol: 'SOL', name: 'Wrapped SOL', mint: SOL_MINT, decimals: 9 },
+  { symbol: 'USDC', name: 'USD Coin', mint: USDC_MINT, decimals: 6 },
+  { symbol: 'USDT', name: 'Tether USD', mint: 'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', decimals: 6 },
+  { symbol: 'JUP', name: 'Jupiter', mint: 'JUPyiwrYJFskUPiHa7hkeR8VUtAeFoSYbKedZNsDvCN', decimals: 6 },
+  { symbol: 'BONK', name: 'Bonk', mint: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263', decimals: 5 },
+  { symbol: 'WIF', name: 'dogwifhat', mint: 'EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm', decimals: 6 },
+  { symbol: 'JTO', name: 'Jito', mint: 'jtojtomepa8beP8AuQc6eXt5FriJwfFMwQx2v2f9mCL', decimals: 9 },
+  { symbol: 'PYTH', name: 'Pyth Network', mint: 'HZ1JovNiVvGrGNiiYvEozEVgZ58xaU3RKwX8eACQBCt3', decimals: 6 },
+  { symbol: 'RAY', name: 'Raydium', mint: '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R', decimals: 6 },
+  { symbol: 'ORCA', name: 'Orca', mint: 'orcaEKTdK7LKz57vaAYr9QeNsVEPfiu6QeMU1kektZE', decimals: 6 },
+  { symbol: 'mSOL', name: 'Marinade staked SOL', mint: 'mSoLzYCxHdYgdzU16g5QSh3i5K3z3KZK7ytfqcJm7So', decimals: 9 },
+  { symbol: 'JitoSOL', name: 'Jito staked SOL', mint: 'J1toso1uCk3RLmjorhTtrVwY9HJ7X8V9yYac6Y7kGCPn', decimals: 9 },
+]
+
+const byMint = new Map(KNOWN_TOKENS.map((t) => [t.mint, t]))
+
+export function findToken(mint: string): TokenInfo | undefined {
+  return byMint.get(mint.trim())
+}
+
+// Symbol matches first, then name, then mint prefix
+export function searchTokens(query: string, limit = 8): TokenInfo[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return KNOWN_TOKENS.slice(0, limit)
+  const rank = (t: TokenInfo) => {
+    const symbol = t.symbol.toLowerCase()
+    if (symbol === q) return 0
+    if (symbol.startsWith(q)) return 1
+    if (t.name.toLowerCase().includes(q)) return 2
+    if (t.mint.toLowerCase().startsWith(q)) return 3
+    return -1
+  }
+  return KNOWN_TOKENS.map((t) => ({ t, r: rank(t) }))
+    .filter((x) => x.r >= 0)
+    .sort((a, b) => a.r - b.r)
+    .slice(0, limit)
+    .map((x) => x.t)
+}
@@ -0,0 +1,301 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { MetaResponse } from './api'
+import { getCronError, isValidTimeZone, nextFireTimes } from './cron'
+import { lintTemplateValue } from './expressions'
+import { getCycleNodeIds, getNodeKind, getReachableNodeIds, isTriggerNode } from './graph'
+import {
+  acceptsTemplates,
+  getNodeDoc,
+  getNodeFields,
+  isCronSchedule,
+  isFieldVisible,
+  isTemplateString,
+  parseFiniteNumber,
+  validateNodeField,
+  type NodeField,
+} from './nodeDocumentation'
+import { getAddressError } from './solana'
+import { CALL_WORKFLOW_TYPE, getOutputMappingErrors } from './subworkflow'
+import { getPayloadSchemaErrors, SIGNING_SECRET_KEY } from './webhook'
+
+export type IssueSeverity = 'error' | 'warning'
+
+// connectivity: graph shape (blocks saving); the rest only block running/enabling
+export type IssueCategory = 'connectivity' | 'trigger' | 'field' | 'template' | 'rule'
+
+export type ValidationIssue = {
+  // stable key for lists
+  key: string
+  severity: IssueSeverity
+  category: IssueCategory
+  message: string
+  nodeId?: string
+  nodeType?: string
+  field?: string
+}
+
+export type ValidationAction = 'save' | 'run' | 'enable'
+
+// Facts about other workflows that a definition alone can't answer
+export type ValidationContext = {
+  workflowId?: string
+  // the account's workflows, once loaded
+  workflows?: Array<{ id: string; name: string }>
+  // call_workflow chains that loop back, keyed by calling node (see findCallCycles)
+  callCycles?: Record<string, string[]>
+}
+
+type RuleIssue = { severity: IssueSeverity; message: string; field?: string }
+type NodeRule = (data: Record<string, unknown>) => RuleIssue[]
+
+// Literal (non-template, non-empty) string value of a field
+function literal(data: Record<string, unknown>, name: string): string | undefined {
+  const v = data[name]
+  if (typeof v !== 'string' || !v.trim() || isTemplateString(v)) return undefined
+  return v.trim()
+}
+
+const distinctMints: NodeRule = (data) => {
+  const input = literal(data, 'inputMint')
+  const output = literal(data, 'outputMint')
+  return input && output && input === output
+    ? [{ severity: 'error', field: 'outputMint', message: 'inputMint and outputMint are the same token' }]
+    : []
+}
+
+const percentage =
+  (...names: string[]): NodeRule =>
+  (data) =>
+    names.flatMap((name) => {
+      if (isTemplateString(data[name])) return []
+      const n = parseFiniteNumber(data[name])
+      return n !== undefined && (n <= 0 || n > 100)
+        ? [{ severity: 'error' as const, field: name, message: `${name} must be between 0 and 100` }]
+        : []
+    })
+
+const minCount =
+  (name: string, min: number, why: string): NodeRule =>
+  (data) => {
+    const n = parseFiniteNumber(data[name])
+    return n !== undefined && n < min ? [{ severity: 'warning', field: name, message: `${name} below ${min}: ${why}` }] : []
+  }
+
+const telegramChat: NodeRule = (data) => {
+  const chatId = literal(data, 'chatId')
+  return chatId && !/^(-?\d+|@[A-Za-z0-9_]{5,})$/.test(chatId)
+    ? [{ severity: 'error', field: 'chatId', message: 'chatId must be a numeric id or @channelname' }]
+    : []
+}
+
+const timerSchedule: NodeRule = (data) => {
+  if (!isCronSchedule(data)) return []
+  const issues: RuleIssue[] = []
+  const timezone = literal(data, 'timezone') ?? 'UTC'
+  const validZone = isValidTimeZone(timezone)
+  if (!validZone) issues.push({ severity: 'error', field: 'timezone', message: `unknown time zone "${timezone}"` })
+
+  const cron = literal(data, 'cron')
+  const cronError = cron ? getCronError(cron) : undefined
+  if (cronError) {
+    issues.push({ severity: 'error', field: 'cron', message: `invalid cron: ${cronError}` })
+  } else if (cron && nextFireTimes(cron, validZone ? timezone : 'UTC', 1).length === 0) {
+    issues.push({ severity: 'error', field: 'cron', message: 'cron never fires (no matching date in the next 5 years)' })
+  }
+  return issues
+}
+
+const webhookTrigger: NodeRule = (data) => {
+  const issues: RuleIssue[] = []
+  if (!literal(data, SIGNING_SECRET_KEY)) {
+    issues.push({ severity: 'error', message: 'generate a signing secret so requests can be verified' })
+  }
+  for (const message of getPayloadSchemaErrors(data.payloadSchema)) {
+    issues.push({ severity: 'error', field: 'payloadSchema', message })
+  }
+  return issues
+}
+
+const callWorkflowMappings: NodeRule = (data) => {
+  const issues: RuleIssue[] = getOutputMappingErrors(data.outputMapping).map((message) => ({
+    severity: 'error' as const,
+    field: 'outputMapping',
+    message,
+  }))
+  const inputs = data.inputMapping
+  if (inputs !== undefined && inputs !== null && (typeof inputs !== 'object' || Array.isArray(inputs))) {
+    issues.push({ severity: 'error', field: 'inputMapping', message: 'inputMapping must be an object of input names' })
+  }
+  return issues
+}
+
+// Where a call_workflow node points, checked against the rest of the account
+function callTargetIssues(nodeId: string, data: Record<string, unknown>, context: ValidationContext): RuleIssue[] {
+  const target = literal(data, 'childWorkflowId')
+  if (!target) return []
+  if (target === context.workflowId) {
+    return [{ severity: 'error', field: 'childWorkflowId', message: 'a workflow cannot call itself' }]
+  }
+  if (context.workflows?.length && !context.workflows.some((w) => w.id === target)) {
+    return [{ severity: 'error', field: 'childWorkflowId', message: 'the called workflow no longer exists' }]
+  }
+  const cycle = context.callCycles?.[nodeId]
+  if (!cycle) return []
+  const name = (id: string) => context.workflows?.find((w) => w.id === id)?.name ?? id.slice(0, 8)
+  return [{ severity: 'error', field: 'childWorkflowId', message: `calls loop back: ${cycle.map(name).join(' → ')}` }]
+}
+
+const all =
+  (...rules: NodeRule[]): NodeRule =>
+  (data) =>
+    rules.flatMap((rule) => rule(data))
+
+// Checks that go beyond a single field's type/range, per node type
+const NODE_RULES: Record<string, NodeRule> = {
+  timer_trigger: timerSchedule,
+  webhook_trigger: webhookTrigger,
+  call_workflow: callWorkflowMappings,
+  http_request: (data) => {
+    const url = literal(data, 'url')
+    return url && !/^https?:\/\/[^\s/]+/.test(url) ? [{ severity: 'error', field: 'url', message: 'url must start with http:// or https://' }] : []
+  },
+  twap: all(
+    distinctMints,
+    minCount('intervals', 2, 'a single interval is a plain swap'),
+    (data) => {
+      const intervals = parseFiniteNumber(data.intervals)
+      const minutes = parseFiniteNumber(data.intervalMinutes)
+      return intervals !== undefined && minutes !== undefined && intervals * minutes > 24 * 60
+        ? [{ severity: 'warning', field: 'intervalMinutes', message: 'schedule spans more than a day' }]
+        : []
+    },
+  ),
+  split_order: minCount('chunks', 2, 'nothing is split'),
+  stop_loss: percentage('sellPercentage'),
+  take_profit: percentage('sellPercentage'),
+  trailing_stop: percentage('trailPercentage', 'sellPercentage'),
+  discord_webhook: (data) => {
+    const url = literal(data, 'webhookUrl')
+    if (!data.credentialId && !url) {
+      return [{ severity: 'error', field: 'webhookUrl', message: 'needs a webhook credential or a webhookUrl' }]
+    }
+    return url && !/^https:\/\/(discord\.com|discordapp\.com)\/api\/webhooks\//.test(url)
+      ? [{ severity: 'error', field: 'webhookUrl', message: 'webhookUrl must be a discord.com/api/webhooks/... url' }]
+      : []
+  },
+  telegram_message: telegramChat,
+  telegram_notify: telegramChat,
+  jupiter_quote: distinctMints,
+  jupiter_swap: distinctMints,
+  raydium_swap: distinctMints,
+  slippage_estimator: distinctMints,
+}
+
+// Literal values of address fields must decode to a 32-byte public key
+function addressIssue(field: NodeField, data: Record<string, unknown>): string | undefined {
+  const v = literal(data, field.name)
+  if (!field.address || !v) return undefined
+  const lines = field.multiline ? v.split(/[\s,]+/).filter(Boolean) : [v]
+  const bad = lines.filter((line) => getAddressError(line))
+  if (bad.length === 0) return undefined
+  if (!field.multiline) return `${field.name} is not a valid Solana address: ${getAddressError(v)}`
+  return `invalid address${bad.length === 1 ? '' : 'es'} in ${field.name}: ${bad.join(', ')}`
+}
+
+export function validateWorkflow(
+  definition: { nodes: Node[]; edges: Edge[] },
+  meta: MetaResponse | undefined,
+  context: ValidationContext = {},
+): ValidationIssue[] {
+  const { nodes, edges } = definition
+  const issues: ValidationIssue[] = []
+  const push = (issue: Omit<ValidationIssue, 'key'>) => {
+    issues.push({ ...issue, key: `${issue.nodeId ?? '*'}:${issue.field ?? issue.category}:${issues.length}` })
+  }
+
+  const triggers = nodes.filter(isTriggerNode)
+  if (triggers.length === 0) {
+    push({ severity: 'error', category: 'connectivity', message: 'add a trigger node' })
+  }
+  // several triggers are fine: each is its own entry point into the graph
+  for (const t of triggers) {
+    const at = { nodeId: t.id, nodeType: getNodeKind(t) }
+    if (edges.some((e) => e.target === t.id)) {
+      push({ ...at, severity: 'error', category: 'trigger', message: 'triggers start the flow and cannot have incoming connections' })
+    }
+    if (nodes.length > triggers.length && !edges.some((e) => e.source === t.id)) {
+      push({ ...at, severity: 'warning', category: 'trigger', message: 'trigger is not connected to anything; it would start an empty run' })
+    }
+  }
+
+  const reachable = triggers.length ? getReachableNodeIds(nodes, edges) : new Set(nodes.map((n) => n.id))
+  // the editor refuses loops, but definitions saved before that (or imported) may have them
+  const onCycle = getCycleNodeIds(edges)
+
+  for (const n of nodes) {
+    const data = ((n.data as Record<string, unknown>) || {}) as Record<string, unknown>
+    const type = getNodeKind(n)
+    const at = { nodeId: n.id, nodeType: type }
+
+    if (!reachable.has(n.id)) {
+      push({ ...at, severity: 'error', category: 'connectivity', message: 'not connected to a trigger' })
+    }
+    if (onCycle.has(n.id)) {
+      push({
+        ...at,
+        severity: 'error',
+        category: 'connectivity',
+        message: 'part of a loop; remove a connection so the flow runs top to bottom (use a retry node to repeat a step)',
+      })
+    }
+
+    if (!getNodeDoc(type)) {
+      push({ ...at, severity: 'error', category: 'field', message: `unknown node type "${type}"` })
+      continue
+    }
+
+    const fields = getNodeFields(type)
+    for (const field of fields) {
+      const message = validateNodeField(field, data, meta)
+      if (message) push({ ...at, field: field.name, severity: 'error', category: 'field', message })
+      const badAddress = isFieldVisible(field, data) ? addressIssue(field, data) : undefined
+      if (badAddress) push({ ...at, field: field.name, severity: 'error', category: 'field', message: badAddress })
+
+      if (!acceptsTemplates(field) || !isFieldVisible(field, data) || data[field.name] == null) continue
+      for (const d of lintTemplateValue(data[field.name], { nodeId: n.id, nodes, edges })) {
+        push({ ...at, field: field.name, severity: d.severity, category: 'template', message: `${field.name}: ${d.message}` })
+      }
+    }
+
+    const targetIssues = type === CALL_WORKFLOW_TYPE ? callTargetIssues(n.id, data, context) : []
+    for (const r of [...(NODE_RULES[type]?.(data) ?? []), ...targetIssues]) {
+      push({ ...at, field: r.field, severity: r.severity, category: 'rule', message: r.message })
+    }
+  }
+
+  // errors first, otherwise in node order
+  return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
+
+// First issue that prevents the action. Saving only needs a connected graph so work
+// in progress can be kept; running and enabling need zero errors. Warnings never block.
+export function getBlockingIssue(issues: ValidationIssue[], action: ValidationAction): ValidationIssue | undefined {
+  return issues.find((i) => i.severity === 'error' && (action !== 'save' || i.category === 'connectivity'))
+}
+
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.nodeId ? `${issue.nodeType} (${issue.nodeId}) ${issue.message}` : issue.message
+}
+
+export type NodeIssueSummary = { errors: number; warnings: number; first: string }
+
+export function summarizeIssuesByNode(issues: ValidationIssue[]): Record<string, NodeIssueSummary> {
+  const out: Record<string, NodeIssueSummary> = {}
+  for (const issue of issues) {
+    if (!issue.nodeId) continue
+    const s = (out[issue.nodeId] ??= { errors: 0, warnings: 0, first: issue.message })
+    if (issue.severity === 'error') s.errors += 1
+    else s.warnings += 1
+  }
+  return out
+}
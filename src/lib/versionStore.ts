@@ -0,0 +1,45 @@
+import type { Definition } from './graphDiff'
+import { runRequest, VERSIONS_STORE } from './localDb'
+
+// Older snapshots beyond this are dropped per workflow
+const MAX_VERSIONS = 100
+
+export type VersionReason = 'save' | 'enable' | 'disable'
+
+export type WorkflowVersion = {
+  id: number
+  workflowId: string
+  createdAt: string
+  reason: VersionReason
+  definition: Definition
+  enabled?: boolean
+  // server updatedAt right after the snapshot was taken
+  serverUpdatedAt?: string
+}
+
+// Newest first. Like drafts, history is best-effort and empty when storage is unavailable.
+export async function listVersions(workflowId: string): Promise<WorkflowVersion[]> {
+  try {
+    const all = await runRequest<WorkflowVersion[]>(VERSIONS_STORE, 'readonly', (s) =>
+      s.index('workflowId').getAll(workflowId),
+    )
+    return all.sort((a, b) => b.id - a.id)
+  } catch {
+    return []
+  }
+}
+
+export async function recordVersion(version: Omit<WorkflowVersion, 'id'>): Promise<void> {
+  try {
+    // strip functions (onDelete) that IndexedDB cannot clone
+    const definition = JSON.parse(JSON.stringify(version.definition))
+    await runRequest(VERSIONS_STORE, 'readwrite', (s) => s.add({ ...version, definition }))
+
+    const versions = await listVersions(version.workflowId)
+    for (const old of versions.slice(MAX_VERSIONS)) {
+      await runRequest(VERSIONS_STORE, 'readwrite', (s) => s.delete(old.id))
+    }
+  } catch {
+    // ignore
+  }
+}
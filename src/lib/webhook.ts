@@ -0,0 +1,88 @@
+// Incoming webhook trigger. The payload schema is a JSON shape whose leaves name a
+// type, e.g. { "ticker": "string", "price": "number", "meta": { "tags": ["string"] } }.
+// It documents what callers send and gives downstream output pickers real fields
+// before the first request arrives.
+
+export const PAYLOAD_FIELD_TYPES = ['string', 'number', 'boolean', 'object', 'any'] as const
+
+export const SIGNATURE_HEADER = 'x-cyphersol-signature'
+
+// Node data key holding the shared secret. It never leaves the account: exports and
+// copied nodes drop it, so every copy gets its own.
+export const SIGNING_SECRET_KEY = 'signingSecret'
+
+export type WebhookVerification = 'signature' | 'token'
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+// Problems with a schema, as "path: message" strings
+export function getPayloadSchemaErrors(schema: unknown): string[] {
+  if (schema === undefined || schema === null || schema === '') return []
+  if (typeof schema === 'string') return ['payloadSchema must be JSON, e.g. { "ticker": "string" }']
+  if (!isPlainObject(schema)) return ['payloadSchema must be an object of field names']
+
+  const errors: string[] = []
+  const walk = (node: unknown, path: string) => {
+    if (typeof node === 'string') {
+      if (!(PAYLOAD_FIELD_TYPES as readonly string[]).includes(node)) {
+        errors.push(`${path}: unknown type "${node}" (use ${PAYLOAD_FIELD_TYPES.join(', ')})`)
+      }
+    } else if (Array.isArray(node)) {
+      if (node.length !== 1) errors.push(`${path}: arrays list exactly one item type, e.g. ["string"]`)
+      else walk(node[0], `${path}[0]`)
+    } else if (isPlainObject(node)) {
+      for (const [k, v] of Object.entries(node)) walk(v, path ? `${path}.${k}` : k)
+    } else {
+      errors.push(`${path}: expected a type name, an object or a one-item array`)
+    }
+  }
+  walk(schema, '')
+  return errors
+}
+
+// Example request body matching the schema
+export function buildSamplePayload(schema: unknown): unknown {
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'string':
+        return 'example'
+      case 'number':
+        return 0
+      case 'boolean':
+        return true
+      case 'object':
+        return {}
+      default:
+        return null
+    }
+  }
+  if (Array.isArray(schema)) return schema.length ? [buildSamplePayload(schema[0])] : []
+  if (isPlainObject(schema)) {
+    return Object.fromEntries(Object.entries(schema).map(([k, v]) => [k, buildSamplePayload(v)]))
+  }
+  return {}
+}
+
+// What the trigger outputs for one request; body follows the payload schema
+export function buildWebhookOutput(data: Record<string, unknown>): Record<string, unknown> {
+  return {
+    body: buildSamplePayload(isPlainObject(data.payloadSchema) ? data.payloadSchema : {}),
+    headers: { 'content-type': 'application/json' },
+    receivedAt: new Date(0).toISOString(),
+  }
+}
+
+export function generateSigningSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24))
+  return `whsec_${Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')}`
+}
+
+// HMAC-SHA256 of the raw body, hex encoded, as sent in the signature header
+export async function signPayload(secret: string, body: string): Promise<string> {
+  const enc = new TextEncoder()
+  const key = await crypto.subtle.importKey('raw', enc.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  const mac = await crypto.subtle.sign('HMAC', key, enc.encode(body))
+  return `sha256=${Array.from(new Uint8Array(mac), (b) => b.toString(16).padStart(2, '0')).join('')}`
+}
@@ -0,0 +1,215 @@
+import type { Edge, Node } from '@xyflow/react'
+import type { CredentialSummary, Workflow } from './api'
+import { cleanEdge, cleanNode } from './clipboard'
+import { readDefinition, type Definition } from './graphDiff'
+import { getNodeDoc, getNodeFields, validateNodeData } from './nodeDocumentation'
+
+const EXPORT_FORMAT = 'cyphersol/workflow'
+export const EXPORT_VERSION = 1
+
+const OVERLAP_POLICIES = ['skip', 'queue', 'allow'] as const
+type OverlapPolicy = (typeof OVERLAP_POLICIES)[number]
+
+export type WorkflowExport = {
+  format: typeof EXPORT_FORMAT
+  version: number
+  exportedAt: string
+  name: string
+  definition: { nodes: Node[]; edges: Edge[] }
+  overlapPolicy?: OverlapPolicy
+  maxBacklog?: number
+}
+
+export type WorkflowImport = {
+  name: string
+  definition: { nodes: Node[]; edges: Edge[] }
+  overlapPolicy?: OverlapPolicy
+  maxBacklog?: number
+  // things the importer should look at before enabling, one line each
+  issues: string[]
+}
+
+export type WorkflowImportResult = { ok: true; workflow: WorkflowImport } | { ok: false; error: string }
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+// Only the persisted definition goes into the file, never React Flow runtime state.
+function cleanDefinition(definition: unknown): Definition {
+  const { nodes, edges } = readDefinition(definition)
+  return { nodes: nodes.map(cleanNode), edges: edges.map(cleanEdge) }
+}
+
+// `definition` overrides the saved one, so the editor can export its unsaved draft.
+export function buildWorkflowExport(workflow: Workflow, definition?: { nodes: Node[]; edges: Edge[] }): WorkflowExport {
+  const out: WorkflowExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    name: workflow.name,
+    definition: cleanDefinition(definition ?? workflow.definition),
+  }
+  if (workflow.overlapPolicy) out.overlapPolicy = workflow.overlapPolicy
+  if (typeof workflow.maxBacklog === 'number') out.maxBacklog = workflow.maxBacklog
+  return out
+}
+
+export function getExportFileName(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'workflow'}.cyphersol.json`
+}
+
+export function downloadWorkflowExport(envelope: WorkflowExport) {
+  const blob = new Blob([JSON.stringify(envelope, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = getExportFileName(envelope.name)
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  URL.revokeObjectURL(url)
+}
+
+function validateNodes(raw: unknown[]): { nodes?: Node[]; error?: string } {
+  const nodes: Node[] = []
+  const seen = new Set<string>()
+  for (let i = 0; i < raw.length; i += 1) {
+    const n = raw[i]
+    if (!isRecord(n)) return { error: `node #${i + 1} is not an object` }
+    if (typeof n.id !== 'string' || !n.id) return { error: `node #${i + 1} has no id` }
+    if (seen.has(n.id)) return { error: `duplicate node id ${n.id}` }
+    seen.add(n.id)
+    const pos = n.position as any
+    if (!isRecord(pos) || typeof pos.x !== 'number' || typeof pos.y !== 'number') {
+      return { error: `node ${n.id} has an invalid position` }
+    }
+    if (!isRecord(n.data) || typeof n.data.type !== 'string') return { error: `node ${n.id} has no type` }
+    nodes.push(cleanNode(n as unknown as Node))
+  }
+  return { nodes }
+}
+
+function validateEdges(raw: unknown[], nodeIds: Set<string>): { edges?: Edge[]; error?: string } {
+  const edges: Edge[] = []
+  for (let i = 0; i < raw.length; i += 1) {
+    const e = raw[i]
+    if (!isRecord(e) || typeof e.source !== 'string' || typeof e.target !== 'string') {
+      return { error: `edge #${i + 1} needs a source and a target` }
+    }
+    if (!nodeIds.has(e.source) || !nodeIds.has(e.target)) {
+      return { error: `edge ${e.source} → ${e.target} points at a missing node` }
+    }
+    const id = typeof e.id === 'string' && e.id ? e.id : `e-${e.source}-${e.target}`
+    edges.push(cleanEdge({ ...(e as unknown as Edge), id }))
+  }
+  return { edges }
+}
+
+// Credential ids belong to the exporting account. Keep ids the importer owns, otherwise
+// pick the importer's only credential for that provider, otherwise clear the field.
+function remapCredentials(nodes: Node[], credentials: CredentialSummary[], issues: string[]): Node[] {
+  return nodes.map((n) => {
+    const data = n.data as Record<string, unknown>
+    const type = String(data.type)
+    let next = data
+    for (const field of getNodeFields(type)) {
+      if (field.type !== 'credential') continue
+      const current = data[field.name]
+      if (current === undefined || current === null || current === '') continue
+
+      const candidates = field.provider ? credentials.filter((c) => c.provider === field.provider) : credentials
+      if (candidates.some((c) => c.id === current)) continue
+
+      const label = field.provider ?? 'credential'
+      if (candidates.length === 1) {
+        next = { ...next, [field.name]: candidates[0].id }
+        issues.push(`${type} (${n.id}) ${field.name} remapped to your ${label} "${candidates[0].name}"`)
+      } else {
+        next = { ...next, [field.name]: undefined }
+        issues.push(
+          candidates.length === 0
+            ? `${type} (${n.id}) ${field.name} cleared: add a ${label} credential and select it`
+            : `${type} (${n.id}) ${field.name} cleared: pick one of your ${candidates.length} ${label} credentials`,
+        )
+      }
+    }
+    return next === data ? n : { ...n, data: next }
+  })
+}
+
+export function parseWorkflowImport(text: string, credentials: CredentialSummary[]): WorkflowImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'file is not valid JSON' }
+  }
+
+  if (!isRecord(parsed) || parsed.format !== EXPORT_FORMAT) {
+    return { ok: false, error: 'not a cyphersol workflow export' }
+  }
+  if (typeof parsed.version !== 'number' || !Number.isInteger(parsed.version) || parsed.version < 1) {
+    return { ok: false, error: 'export has no format version' }
+  }
+  if (parsed.version > EXPORT_VERSION) {
+    return { ok: false, error: `export format v${parsed.version} is newer than this app supports (v${EXPORT_VERSION})` }
+  }
+
+  const name = typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : 'imported workflow'
+  const def = parsed.definition
+  if (!isRecord(def) || !Array.isArray(def.nodes) || !Array.isArray(def.edges)) {
+    return { ok: false, error: 'definition must contain nodes and edges arrays' }
+  }
+
+  const nodeResult = validateNodes(def.nodes)
+  if (!nodeResult.nodes) return { ok: false, error: nodeResult.error! }
+  const edgeResult = validateEdges(def.edges, new Set(nodeResult.nodes.map((n) => n.id)))
+  if (!edgeResult.edges) return { ok: false, error: edgeResult.error! }
+
+  const issues: string[] = []
+
+  let overlapPolicy: OverlapPolicy | undefined
+  if (parsed.overlapPolicy !== undefined) {
+    if (OVERLAP_POLICIES.includes(parsed.overlapPolicy as OverlapPolicy)) overlapPolicy = parsed.overlapPolicy as OverlapPolicy
+    else issues.push(`unknown overlap policy "${String(parsed.overlapPolicy)}" ignored`)
+  }
+
+  let maxBacklog: number | undefined
+  if (parsed.maxBacklog !== undefined) {
+    if (typeof parsed.maxBacklog === 'number' && Number.isInteger(parsed.maxBacklog) && parsed.maxBacklog >= 0) {
+      maxBacklog = parsed.maxBacklog
+    } else {
+      issues.push('invalid max backlog ignored')
+    }
+  }
+
+  for (const n of nodeResult.nodes) {
+    const type = String((n.data as any).type)
+    if (!getNodeDoc(type)) issues.push(`${type} (${n.id}) is not a known node type`)
+    if (type === 'webhook_trigger') issues.push(`${type} (${n.id}) gets a new endpoint url; generate a signing secret and update callers`)
+    if (type === 'call_workflow' && (n.data as any).childWorkflowId) {
+      issues.push(`${type} (${n.id}) calls workflow ${String((n.data as any).childWorkflowId)}; pick it again if this account doesn't have it`)
+    }
+  }
+
+  const nodes = remapCredentials(nodeResult.nodes, credentials, issues)
+
+  for (const n of nodes) {
+    const data = n.data as Record<string, unknown>
+    const type = String(data.type)
+    if (!getNodeDoc(type)) continue
+    for (const issue of validateNodeData(n.id, type, data, undefined)) {
+      if (!issues.includes(issue)) issues.push(issue)
+    }
+  }
+
+  return {
+    ok: true,
+    workflow: { name, definition: { nodes, edges: edgeResult.edges }, overlapPolicy, maxBacklog, issues },
+  }
+}
@@ -0,0 +1,269 @@
+import { Fragment, useMemo, useState } from 'react'
+import type { Node } from '@xyflow/react'
+import { Link, useParams, useSearchParams } from 'react-router-dom'
+import ExecutionStatusBadge from '../components/ExecutionStatusBadge'
+import type { Execution, ExecutionLog, NodeExecutionState } from '../lib/api'
+import { compareExecutions, type LogLineDiff, type NodeComparison } from '../lib/executionCompare'
+import { formatDuration, formatDurationMs, getStatusColor } from '../lib/executionOverlay'
+import { formatDiffValue } from '../lib/graphDiff'
+import { useExecution, useWorkflow } from '../lib/hooks'
+
+function RunSummary({ label, execution }: { label: string; execution?: Execution }) {
+  if (!execution) {
+    return (
+      <div className="card" style={{ padding: 16 }}>
+        <div className="text-sm text-muted" style={{ marginBottom: 8 }}>{label}</div>
+        <div className="skeleton" style={{ width: 140, height: 16 }} />
+      </div>
+    )
+  }
+  return (
+    <div className="card" style={{ padding: 16 }}>
+      <div className="flex items-center justify-between" style={{ marginBottom: 8 }}>
+        <span className="text-sm text-muted">{label}</span>
+        <Link to={`/executions/${execution.id}`} className="text-sm">Open</Link>
+      </div>
+      <div className="flex items-center gap-2" style={{ marginBottom: 6 }}>
+        <ExecutionStatusBadge status={execution.status} />
+        {execution.startedAt && (
+          <span className="text-sm text-muted">{formatDuration(execution.startedAt, execution.finishedAt)}</span>
+        )}
+      </div>
+      <div className="text-sm text-muted">Started {new Date(execution.createdAt).toLocaleString()}</div>
+      {execution.triggerNodeId && (
+        <div className="text-sm text-muted">Trigger: {execution.triggerType ?? 'trigger'} ({execution.triggerNodeId})</div>
+      )}
+      <div className="text-xs text-subtle" style={{ fontFamily: 'monospace', marginTop: 6 }}>{execution.id}</div>
+    </div>
+  )
+}
+
+function StatusCell({ state, changed }: { state?: NodeExecutionState; changed: boolean }) {
+  const status = state ? String(state.status) : 'not run'
+  return (
+    <td style={{ background: changed ? 'var(--color-warning-bg)' : undefined }}>
+      <span style={{ color: getStatusColor(status), fontWeight: 500 }}>{status}</span>
+      {state?.error && (
+        <div className="text-xs" style={{ color: 'var(--color-error)', marginTop: 2 }}>{state.error}</div>
+      )}
+    </td>
+  )
+}
+
+function DurationCell({ a, b }: { a?: number; b?: number }) {
+  if (a === undefined && b === undefined) return <td className="text-muted">—</td>
+  const delta = a !== undefined && b !== undefined ? b - a : undefined
+  return (
+    <td className="text-sm">
+      {a !== undefined ? formatDurationMs(a) : '—'} → {b !== undefined ? formatDurationMs(b) : '—'}
+      {delta !== undefined && delta !== 0 && (
+        <span className="text-muted">
+          {' '}({delta > 0 ? '+' : '-'}{formatDurationMs(Math.abs(delta))})
+        </span>
+      )}
+    </td>
+  )
+}
+
+function LogDiff({ lines }: { lines: LogLineDiff[] }) {
+  if (lines.length === 0) return <div className="text-sm text-muted">No logs</div>
+  const line = (log: ExecutionLog) => `${log.level.padEnd(5)} ${log.message}`
+  return (
+    <div style={{ fontFamily: 'monospace', fontSize: 12, border: '1px solid var(--color-border)', borderRadius: 8, overflow: 'hidden' }}>
+      {lines.map((l, i) => (
+        <div
+          key={i}
+          style={{
+            padding: '2px 8px',
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+            background: l.kind === 'removed' ? 'var(--color-error-bg)' : l.kind === 'added' ? 'var(--color-success-bg)' : undefined,
+            color: l.kind === 'same' ? 'var(--color-text-muted)' : 'var(--color-text)',
+          }}
+        >
+          {l.kind === 'removed' ? '- ' : l.kind === 'added' ? '+ ' : '  '}
+          {line((l.b ?? l.a)!)}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function NodeDetail({ node }: { node: NodeComparison }) {
+  return (
+    <div className="flex flex-col gap-3" style={{ padding: '4px 0 8px' }}>
+      <div>
+        <div className="text-sm font-medium" style={{ marginBottom: 6 }}>Output changes</div>
+        {node.outputChanges.length === 0 ? (
+          <div className="text-sm text-muted">Outputs are identical</div>
+        ) : (
+          <div className="table-container">
+            <table className="table" style={{ fontSize: 12 }}>
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>A</th>
+                  <th>B</th>
+                </tr>
+              </thead>
+              <tbody>
+                {node.outputChanges.map((c) => (
+                  <tr key={c.path || '(output)'}>
+                    <td style={{ fontFamily: 'monospace' }}>{c.path || '(output)'}</td>
+                    <td
+                      style={{ fontFamily: 'monospace', background: c.kind !== 'added' ? 'var(--color-error-bg)' : undefined }}
+                      title={c.before === undefined ? undefined : JSON.stringify(c.before)}
+                    >
+                      {formatDiffValue(c.before)}
+                    </td>
+                    <td
+                      style={{ fontFamily: 'monospace', background: c.kind !== 'removed' ? 'var(--color-success-bg)' : undefined }}
+                      title={c.after === undefined ? undefined : JSON.stringify(c.after)}
+                    >
+                      {formatDiffValue(c.after)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+      <div>
+        <div className="text-sm font-medium" style={{ marginBottom: 6 }}>Logs</div>
+        <LogDiff lines={node.logs} />
+      </div>
+    </div>
+  )
+}
+
+export default function CompareExecutions() {
+  const params = useParams()
+  const [searchParams] = useSearchParams()
+  const workflowId = params.id
+  const idA = searchParams.get('a') ?? undefined
+  const idB = searchParams.get('b') ?? undefined
+
+  const { workflow } = useWorkflow(workflowId)
+  const { execution: a, error: errorA } = useExecution(idA)
+  const { execution: b, error: errorB } = useExecution(idB)
+
+  const [onlyDifferences, setOnlyDifferences] = useState(true)
+  const [expanded, setExpanded] = useState<string | undefined>()
+
+  const comparison = useMemo(() => {
+    if (!a || !b) return undefined
+    const def = workflow?.definition as { nodes?: Node[] } | undefined
+    return compareExecutions(a, b, Array.isArray(def?.nodes) ? def.nodes : [])
+  }, [a, b, workflow?.definition])
+
+  const changedCount = comparison?.nodes.filter((n) => n.changed).length ?? 0
+  const rows = comparison ? comparison.nodes.filter((n) => !onlyDifferences || n.changed) : []
+  const runLogsChanged = comparison?.runLogs.some((l) => l.kind !== 'same') ?? false
+
+  return (
+    <div className="container" style={{ paddingTop: 40, paddingBottom: 40 }}>
+      <div className="page-header">
+        <div>
+          <div className="text-sm text-muted" style={{ marginBottom: 4 }}>Compare Executions</div>
+          <h1 className="page-title">{workflow?.name || 'Executions'}</h1>
+        </div>
+        <div className="flex gap-2">
+          <Link to={`/workflows/${workflowId}/executions`} className="btn btn-secondary">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="m15 18-6-6 6-6"/>
+            </svg>
+            Back to Executions
+          </Link>
+        </div>
+      </div>
+
+      {(!idA || !idB || errorA || errorB) && (
+        <div className="alert alert-error" style={{ marginBottom: 16 }}>
+          <span>{!idA || !idB ? 'Pick two executions to compare' : 'Failed to load executions'}</span>
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 16, marginBottom: 16 }}>
+        <RunSummary label="A · Baseline" execution={a} />
+        <RunSummary label="B · Compared" execution={b} />
+      </div>
+
+      {comparison && (
+        <>
+          <div className="flex items-center justify-between" style={{ marginBottom: 8 }}>
+            <span className="text-sm text-muted">
+              {changedCount === 0 ? 'No differences apart from timings' : `${changedCount} of ${comparison.nodes.length} nodes differ`}
+            </span>
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+              Only show differences
+            </label>
+          </div>
+
+          <div className="card table-container" style={{ marginBottom: 16 }}>
+            <table className="table">
+              <thead>
+                <tr>
+                  <th>Node</th>
+                  <th>A</th>
+                  <th>B</th>
+                  <th>Duration</th>
+                  <th>Outputs</th>
+                  <th>Logs</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="text-muted">No nodes differ</td>
+                  </tr>
+                ) : (
+                  rows.map((n) => {
+                    const logChanges = n.logs.filter((l) => l.kind !== 'same').length
+                    return (
+                      <Fragment key={n.nodeId}>
+                        <tr onClick={() => setExpanded(expanded === n.nodeId ? undefined : n.nodeId)} style={{ cursor: 'pointer' }}>
+                          <td>
+                            <div style={{ fontFamily: 'monospace' }}>{n.nodeId}</div>
+                            {n.type && <div className="text-xs text-muted">{n.type}</div>}
+                          </td>
+                          <StatusCell state={n.a} changed={n.statusChanged} />
+                          <StatusCell state={n.b} changed={n.statusChanged} />
+                          <DurationCell a={n.durationA} b={n.durationB} />
+                          <td
+                            className="text-sm"
+                            style={{ background: n.outputChanges.length ? 'var(--color-warning-bg)' : undefined }}
+                          >
+                            {n.outputChanges.length ? `${n.outputChanges.length} changed` : 'Same'}
+                          </td>
+                          <td className="text-sm" style={{ background: logChanges ? 'var(--color-warning-bg)' : undefined }}>
+                            {logChanges ? `${logChanges} lines differ` : 'Same'}
+                          </td>
+                        </tr>
+                        {expanded === n.nodeId && (
+                          <tr>
+                            <td colSpan={6}>
+                              <NodeDetail node={n} />
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    )
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {(runLogsChanged || !onlyDifferences) && (
+            <div className="card" style={{ padding: 16 }}>
+              <div className="text-sm font-medium" style={{ marginBottom: 8 }}>Run logs</div>
+              <LogDiff lines={comparison.runLogs} />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
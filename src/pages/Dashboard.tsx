@@ -1,18 +1,20 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import { Link, useNavigate } from 'react-router-dom'
 import {
   createWorkflow,
   deleteWorkflow,
+  getWorkflow,
   signout,
   updateWorkflow,
   type ApiError,
   type Workflow,
 } from '../lib/api'
 import { clearAuthToken } from '../lib/auth'
-import { useWorkflows, invalidateWorkflows } from '../lib/hooks'
+import { useCredentials, useWorkflows, invalidateWorkflows } from '../lib/hooks'
 import TemplateLibrary from '../components/TemplateLibrary'
 import ThemeToggle from '../components/ThemeToggle'
 import type { WorkflowTemplate } from '../lib/templates'
+import { buildWorkflowExport, downloadWorkflowExport, parseWorkflowImport } from '../lib/workflowTransfer'
 
 function formatRelativeTime(date: Date): string {
   const now = new Date()
@@ -28,6 +30,19 @@ function formatRelativeTime(date: Date): string {
   return date.toLocaleDateString()
 }
 
+// nextRunAt is set by the trigger service from the interval or cron schedule
+function formatNextRun(date: Date): string {
+  const diffMs = date.getTime() - Date.now()
+  const diffMins = Math.round(diffMs / 60000)
+  const diffHours = Math.round(diffMs / 3600000)
+
+  if (diffMs < -60000) return 'overdue'
+  if (diffMins < 1) return 'due now'
+  if (diffMins < 60) return `in ${diffMins}m`
+  if (diffHours < 24) return `in ${diffHours}h`
+  return date.toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
 function WorkflowSkeleton() {
   return (
     <div className="list-item">
@@ -50,6 +65,9 @@ export default function Dashboard() {
   const [busy, setBusy] = useState(false)
   const [error, setError] = useState<string | undefined>()
   const [showTemplates, setShowTemplates] = useState(false)
+  const [importSummary, setImportSummary] = useState<{ id: string; name: string; issues: string[] } | undefined>()
+  const importInputRef = useRef<HTMLInputElement | null>(null)
+  const { credentials } = useCredentials()
 
   const displayError = error || (fetchError ? 'Failed to load workflows' : undefined)
 
@@ -91,6 +109,57 @@ export default function Dashboard() {
     }
   }
 
+  async function onExport(wf: Workflow) {
+    setBusy(true)
+    setError(undefined)
+    try {
+      // list items may not carry the full definition
+      const res = await getWorkflow(wf.id)
+      downloadWorkflowExport(buildWorkflowExport(res.workflow))
+    } catch (err) {
+      const apiErr = err as ApiError
+      if (apiErr.status === 401) {
+        clearAuthToken()
+        navigate('/login', { replace: true })
+        return
+      }
+      setError(apiErr.message || 'Failed to export workflow')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  async function onImportFile(file: File) {
+    setError(undefined)
+    setImportSummary(undefined)
+    const parsed = parseWorkflowImport(await file.text(), credentials)
+    if (!parsed.ok) {
+      setError(`Import failed: ${parsed.error}`)
+      return
+    }
+
+    const { name, definition, overlapPolicy, maxBacklog, issues } = parsed.workflow
+    setBusy(true)
+    try {
+      const res = await createWorkflow(name, definition)
+      if (overlapPolicy !== undefined || maxBacklog !== undefined) {
+        await updateWorkflow(res.workflow.id, { overlapPolicy, maxBacklog })
+      }
+      await invalidateWorkflows()
+      setImportSummary({ id: res.workflow.id, name, issues })
+    } catch (err) {
+      const apiErr = err as ApiError
+      if (apiErr.status === 401) {
+        clearAuthToken()
+        navigate('/login', { replace: true })
+        return
+      }
+      setError(apiErr.message || 'Failed to import workflow')
+    } finally {
+      setBusy(false)
+    }
+  }
+
   async function onLogout() {
     setBusy(true)
     try {
@@ -172,6 +241,25 @@ export default function Dashboard() {
             </svg>
             Templates
           </button>
+          <button type="button" onClick={() => importInputRef.current?.click()} disabled={busy} className="btn btn-secondary">
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+              <polyline points="7 10 12 15 17 10"/>
+              <line x1="12" y1="15" x2="12" y2="3"/>
+            </svg>
+            Import
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) void onImportFile(file)
+            }}
+          />
           <button type="button" onClick={() => onCreate()} disabled={busy} className="btn btn-primary">
             {busy ? (
               <span className="spinner" style={{ width: 14, height: 14 }} />
@@ -210,6 +298,29 @@ export default function Dashboard() {
         </div>
       )}
 
+      {importSummary && (
+        <div className={`alert ${importSummary.issues.length ? 'alert-warning' : 'alert-success'}`} style={{ marginBottom: 16, alignItems: 'flex-start' }}>
+          <div style={{ flex: 1 }}>
+            <div>
+              Imported <Link to={`/editor/${importSummary.id}`}>{importSummary.name}</Link>
+              {importSummary.issues.length
+                ? ` · ${importSummary.issues.length} thing${importSummary.issues.length === 1 ? '' : 's'} to fix before enabling:`
+                : ' · ready to go'}
+            </div>
+            {importSummary.issues.length > 0 && (
+              <ul style={{ margin: '8px 0 0', paddingLeft: 18, fontSize: 13 }}>
+                {importSummary.issues.map((issue) => (
+                  <li key={issue}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <button onClick={() => setImportSummary(undefined)} className="btn btn-sm btn-ghost">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       <div className="card">
         {isLoading ? (
           <>
@@ -251,8 +362,11 @@ export default function Dashboard() {
                 </div>
                 <div className="list-item-subtitle">
                   Updated {formatRelativeTime(new Date(wf.updatedAt))}
-                  {wf.nextRunAt && (
-                    <span> · Next run: {formatRelativeTime(new Date(wf.nextRunAt))}</span>
+                  {wf.enabled && wf.nextRunAt && (
+                    <span title={new Date(wf.nextRunAt).toLocaleString()}>
+                      {' '}
+                      · Next run: {formatNextRun(new Date(wf.nextRunAt))}
+                    </span>
                   )}
                 </div>
               </Link>
@@ -260,6 +374,9 @@ export default function Dashboard() {
                 <Link to={`/workflows/${wf.id}/executions`} className="btn btn-sm btn-secondary">
                   History
                 </Link>
+                <button onClick={() => onExport(wf)} disabled={busy} className="btn btn-sm btn-secondary">
+                  Export
+                </button>
                 <button onClick={() => onRename(wf)} disabled={busy} className="btn btn-sm btn-secondary">
                   Rename
                 </button>
@@ -3,7 +3,22 @@ import { Link, useNavigate, useParams } from 'react-router-dom'
 import type { Edge, Node } from '@xyflow/react'
 import { clearAuthToken } from '../lib/auth'
 import CreateWorkFlow from '../components/CreateWorkFlow'
-import { type ApiError, getExecution, getWorkflow, type Execution, type NodeExecutionState } from '../lib/api'
+import LogExplorer from '../components/LogExplorer'
+import RerunDialog from '../components/RerunDialog'
+import {
+  type ApiError,
+  getWorkflow,
+  replayExecution,
+  resumeExecution,
+  type NodeExecutionState,
+  type RerunMode,
+} from '../lib/api'
+import { buildNodeRuns, getExecutedEdgeIds, getStatusColor } from '../lib/executionOverlay'
+import { isExecutionFinished } from '../lib/executionStream'
+import { getEdgeBranch } from '../lib/graph'
+import { useExecution } from '../lib/hooks'
+import { getNodeBranches } from '../lib/nodeDocumentation'
+import { getResumableNodeIds, planRerun } from '../lib/rerun'
 
 export default function ExecutionDetail() {
   const params = useParams()
@@ -11,14 +26,24 @@ export default function ExecutionDetail() {
 
   const executionId = params.id
 
-  const [execution, setExecution] = useState<Execution | undefined>()
-  const [busy, setBusy] = useState(false)
-  const [polling, setPolling] = useState(false)
-  const [error, setError] = useState<string | undefined>()
-
-  const [graph, setGraph] = useState<{ nodes: Node[]; edges: Edge[] } | undefined>()
+  // live updates come over the stream; polling only takes over once it gives up
+  const { execution, error: loadError, isLoading, streaming, polling } = useExecution(executionId)
+  const busy = isLoading && !execution
+  const error = useMemo(() => {
+    const apiErr = loadError as ApiError | undefined
+    if (!apiErr || apiErr.status === 401) return undefined
+    const meta = [apiErr.code, apiErr.requestId].filter(Boolean).join(' · ')
+    return meta ? `${apiErr.message} (${meta})` : apiErr.message || 'failed'
+  }, [loadError])
+
+  // the workflow as it is now; updatedAt tells whether it changed since this run
+  const [graph, setGraph] = useState<{ nodes: Node[]; edges: Edge[]; updatedAt?: string } | undefined>()
   const [graphError, setGraphError] = useState<string | undefined>()
 
+  const [rerun, setRerun] = useState<{ mode: RerunMode; fromNodeId?: string } | undefined>()
+  const [rerunBusy, setRerunBusy] = useState(false)
+  const [rerunError, setRerunError] = useState<string | undefined>()
+
   const [focusNodeId, setFocusNodeId] = useState<string | undefined>()
   const [highlightNodeId, setHighlightNodeId] = useState<string | undefined>()
 
@@ -31,17 +56,31 @@ export default function ExecutionDetail() {
     window.localStorage.setItem('solanaExplorerCluster', solanaExplorerCluster)
   }, [solanaExplorerCluster])
 
-  async function fetchExecution(options?: { silent?: boolean }) {
-    if (!executionId) return
-
-    if (!options?.silent) {
-      setBusy(true)
-      setError(undefined)
-    }
+  useEffect(() => {
+    if ((loadError as ApiError | undefined)?.status !== 401) return
+    clearAuthToken()
+    navigate('/login', { replace: true })
+  }, [loadError])
+
+  const rerunPlan = useMemo(() => {
+    if (!rerun || !execution || !graph) return undefined
+    return planRerun(execution, graph, { ...rerun, workflowUpdatedAt: graph.updatedAt })
+  }, [rerun, execution, graph])
+
+  function openRerun(mode: RerunMode, fromNodeId?: string) {
+    setRerunError(undefined)
+    setRerun({ mode, fromNodeId })
+  }
 
+  async function confirmRerun() {
+    if (!execution || !rerun) return
+    setRerunBusy(true)
+    setRerunError(undefined)
     try {
-      const res = await getExecution(executionId)
-      setExecution(res.execution)
+      const res =
+        rerun.mode === 'replay' ? await replayExecution(execution.id) : await resumeExecution(execution.id, rerun.fromNodeId!)
+      setRerun(undefined)
+      navigate(`/executions/${res.execution.id}`)
     } catch (err) {
       const apiErr = err as ApiError
       if (apiErr.status === 401) {
@@ -50,11 +89,9 @@ export default function ExecutionDetail() {
         return
       }
       const meta = [apiErr.code, apiErr.requestId].filter(Boolean).join(' · ')
-      setError(meta ? `${apiErr.message} (${meta})` : apiErr.message || 'failed')
+      setRerunError(meta ? `${apiErr.message} (${meta})` : apiErr.message || 'failed')
     } finally {
-      if (!options?.silent) {
-        setBusy(false)
-      }
+      setRerunBusy(false)
     }
   }
 
@@ -75,25 +112,24 @@ export default function ExecutionDetail() {
     return entries
   }, [execution?.nodeOutputs])
 
-  const firstLogIndexByNodeId = useMemo(() => {
-    const map: Record<string, number> = {}
-    const logs = execution?.logs || []
-    for (let i = 0; i < logs.length; i += 1) {
-      const nodeId = logs[i]?.nodeId
-      if (!nodeId) continue
-      if (map[nodeId] !== undefined) continue
-      map[nodeId] = i
+  // call_workflow steps and the child executions they started
+  const childRuns = useMemo(() => {
+    const runs: Array<{ nodeId: string; executionId: string; status?: string }> = []
+    for (const [nodeId, output] of outputEntries) {
+      if (!isRecord(output) || typeof output.childExecutionId !== 'string') continue
+      runs.push({ nodeId, executionId: output.childExecutionId, status: typeof output.status === 'string' ? output.status : undefined })
     }
-    return map
-  }, [execution?.logs])
+    return runs
+  }, [outputEntries])
 
   useEffect(() => {
     if (!focusNodeId) return
 
     const outputEl = document.getElementById(`node-output-${focusNodeId}`)
-    const logEl = document.getElementById(`node-log-${focusNodeId}`)
     const statusEl = document.getElementById(`node-status-${focusNodeId}`)
-    const target = outputEl || logEl || statusEl
+    // the log explorer scrolls itself to the node's lines once it's highlighted
+    const logsEl = execution?.logs.some((l) => l.nodeId === focusNodeId) ? document.getElementById('execution-logs') : null
+    const target = outputEl || statusEl || logsEl
     if (!target) return
 
     target.scrollIntoView({ behavior: 'smooth', block: 'start' })
@@ -101,29 +137,13 @@ export default function ExecutionDetail() {
 
     const t = window.setTimeout(() => {
       setHighlightNodeId((cur) => (cur === focusNodeId ? undefined : cur))
+      // so clicking the same node again scrolls back to it
+      setFocusNodeId((cur) => (cur === focusNodeId ? undefined : cur))
     }, 1200)
 
     return () => window.clearTimeout(t)
   }, [focusNodeId])
 
-  function getStatusColor(status: string) {
-    if (status === 'success') return '#157f3b'
-    if (status === 'failed') return '#b42318'
-    if (status === 'running') return '#175cd3'
-    if (status === 'queued' || status === 'pending') return '#4b5563'
-    if (status === 'skipped' || status === 'cancelled') return '#6b7280'
-    return '#374151'
-  }
-
-  function getStatusBg(status: string) {
-    if (status === 'success') return '#ecfdf3'
-    if (status === 'failed') return '#fef3f2'
-    if (status === 'running') return '#eff8ff'
-    if (status === 'queued' || status === 'pending') return '#f3f4f6'
-    if (status === 'skipped' || status === 'cancelled') return '#f9fafb'
-    return '#f9fafb'
-  }
-
   function isRecord(v: unknown): v is Record<string, unknown> {
     return !!v && typeof v === 'object' && !Array.isArray(v)
   }
@@ -330,7 +350,7 @@ export default function ExecutionDetail() {
         const def = wfRes.workflow.definition as any
         const nodes = Array.isArray(def?.nodes) ? (def.nodes as Node[]) : ([] as Node[])
         const edges = Array.isArray(def?.edges) ? (def.edges as Edge[]) : ([] as Edge[])
-        setGraph({ nodes, edges })
+        setGraph({ nodes, edges, updatedAt: wfRes.workflow.updatedAt })
       } catch (err) {
         const apiErr = err as ApiError
         if (apiErr.status === 401) {
@@ -346,54 +366,61 @@ export default function ExecutionDetail() {
     void loadWorkflow()
   }, [execution?.workflowId])
 
+  // the status shows through the node's colour, duration badge and hover error
   const styledGraphNodes = useMemo(() => {
     if (!graph) return undefined
-    const nodeStatuses = execution?.nodeStatuses || {}
 
     return graph.nodes.map((n) => {
-      const state = (nodeStatuses as any)?.[n.id] as NodeExecutionState | undefined
-      const status = String(state?.status || 'pending')
       const labelRaw = (n.data as any)?.label
       const baseLabel = typeof labelRaw === 'string' && labelRaw.length > 0 ? labelRaw : n.id
 
-      return {
-        ...n,
-        data: { ...(n.data as any), label: `${baseLabel} (${status})` },
-        style: {
-          ...(n.style as any),
-          border: `2px solid ${getStatusColor(status)}`,
-          background: getStatusBg(status),
-          borderRadius: 10,
-          padding: 6,
-        },
-      }
+      return { ...n, data: { ...(n.data as any), label: baseLabel } }
     })
-  }, [graph, execution?.nodeStatuses])
+  }, [graph])
 
+  // ticks once a second while the run is in progress so running nodes' durations count up
+  const [now, setNow] = useState(() => Date.now())
+  const inProgress = !!execution && !isExecutionFinished(execution.status)
   useEffect(() => {
-    void fetchExecution()
-  }, [executionId])
-
-  useEffect(() => {
-    if (!executionId) return
-    if (!execution) return
-
-    const shouldPoll = execution.status === 'queued' || execution.status === 'running'
-    if (!shouldPoll) {
-      setPolling(false)
-      return
+    if (!inProgress) return
+    const t = window.setInterval(() => setNow(Date.now()), 1000)
+    return () => window.clearInterval(t)
+  }, [inProgress])
+
+  const nodeRuns = useMemo(() => buildNodeRuns(execution?.nodeStatuses, now), [execution?.nodeStatuses, now])
+
+  // Branch each executed branch node routed to, keyed by node id ('true' / 'false' for if nodes)
+  const branchTakenByNodeId = useMemo(() => {
+    const map: Record<string, string> = {}
+    if (!graph) return map
+    const outputs = execution?.nodeOutputs || {}
+    for (const n of graph.nodes) {
+      if (getNodeBranches(String((n.data as any)?.type ?? '')).length === 0) continue
+      const output = (outputs as any)[n.id]
+      if (isRecord(output) && typeof output.passed === 'boolean') map[n.id] = output.passed ? 'true' : 'false'
     }
+    return map
+  }, [graph, execution?.nodeOutputs])
 
-    setPolling(true)
-
-    const t = window.setTimeout(() => {
-      void fetchExecution({ silent: true })
-    }, 1000)
+  const styledGraphEdges = useMemo(() => {
+    if (!graph) return undefined
+    const byId = new Map(graph.nodes.map((n) => [n.id, n]))
+    const executed = getExecutedEdgeIds(graph.edges, execution?.nodeStatuses)
 
-    return () => {
-      window.clearTimeout(t)
-    }
-  }, [executionId, execution?.status])
+    return graph.edges.map((e) => {
+      const taken = branchTakenByNodeId[e.source]
+      if (taken !== undefined && getEdgeBranch(e, byId.get(e.source)) !== taken) {
+        return { ...e, style: { ...(e.style as any), opacity: 0.35, strokeDasharray: '4 4' } }
+      }
+      if (!executed.has(e.id)) return e
+      return {
+        ...e,
+        // the run is travelling this edge right now
+        animated: execution?.nodeStatuses?.[e.target]?.status === 'running',
+        style: { ...(e.style as any), stroke: 'var(--color-success)', strokeWidth: 2 },
+      }
+    })
+  }, [graph, branchTakenByNodeId, execution?.nodeStatuses])
 
   return (
     <div style={{ maxWidth: 900, margin: '40px auto', padding: 16 }}>
@@ -402,7 +429,11 @@ export default function ExecutionDetail() {
           <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Execution</div>
           <div style={{ display: 'flex', gap: 10, alignItems: 'baseline' }}>
             <h1 style={{ margin: 0 }}>{title}</h1>
-            {polling ? <span style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>auto-refreshing</span> : null}
+            {streaming ? (
+              <span style={{ fontSize: 12, color: 'var(--color-success)' }}>live</span>
+            ) : polling ? (
+              <span style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>auto-refreshing</span>
+            ) : null}
           </div>
         </div>
 
@@ -418,6 +449,29 @@ export default function ExecutionDetail() {
               <option value="devnet">devnet</option>
             </select>
           </div>
+          {execution && !inProgress && graph ? (
+            <>
+              <button
+                type="button"
+                onClick={() => openRerun('replay')}
+                title="run again from the original trigger payload"
+                style={{ padding: '8px 12px', borderRadius: 6, border: '1px solid var(--color-border)', background: 'var(--color-surface)', fontSize: 12 }}
+              >
+                replay
+              </button>
+              {getResumableNodeIds(execution).map((nodeId) => (
+                <button
+                  key={nodeId}
+                  type="button"
+                  onClick={() => openRerun('resume', nodeId)}
+                  title="run again from this failed node, reusing the outputs before it"
+                  style={{ padding: '8px 12px', borderRadius: 6, border: '1px solid var(--color-border)', background: 'var(--color-surface)', fontSize: 12 }}
+                >
+                  resume from {nodeId}
+                </button>
+              ))}
+            </>
+          ) : null}
           {execution ? (
             <Link
               to={`/workflows/${execution.workflowId}/executions`}
@@ -457,6 +511,56 @@ export default function ExecutionDetail() {
               <div style={{ fontFamily: 'monospace' }}>{execution.workflowId}</div>
             </div>
 
+            {execution.rerunOfExecutionId ? (
+              <div style={{ display: 'grid', gap: 4 }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>
+                  {execution.rerunMode === 'resume' ? 'Resumed from' : 'Replay of'}
+                </div>
+                <div style={{ fontSize: 13, color: 'var(--color-text)' }}>
+                  <Link to={`/executions/${execution.rerunOfExecutionId}`} style={{ fontFamily: 'monospace' }}>
+                    {execution.rerunOfExecutionId}
+                  </Link>
+                  {execution.resumeFromNodeId ? <span> at <span style={{ fontFamily: 'monospace' }}>{execution.resumeFromNodeId}</span></span> : null}
+                </div>
+              </div>
+            ) : null}
+
+            {execution.parentExecutionId ? (
+              <div style={{ display: 'grid', gap: 4 }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Called by</div>
+                <div style={{ fontSize: 13, color: 'var(--color-text)' }}>
+                  <Link to={`/executions/${execution.parentExecutionId}`} style={{ fontFamily: 'monospace' }}>
+                    {execution.parentExecutionId}
+                  </Link>
+                  {execution.parentNodeId ? <span style={{ fontFamily: 'monospace' }}> ({execution.parentNodeId})</span> : null}
+                </div>
+              </div>
+            ) : null}
+
+            {execution.triggerNodeId ? (
+              <div style={{ display: 'grid', gap: 4 }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Trigger</div>
+                <div style={{ fontSize: 13, color: 'var(--color-text)' }}>
+                  {execution.triggerType ?? 'trigger'} <span style={{ fontFamily: 'monospace' }}>({execution.triggerNodeId})</span>
+                </div>
+              </div>
+            ) : null}
+
+            {childRuns.length ? (
+              <div style={{ display: 'grid', gap: 4 }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Sub-workflow runs</div>
+                {childRuns.map((run) => (
+                  <div key={run.nodeId} style={{ fontSize: 13, color: 'var(--color-text)' }}>
+                    <span style={{ fontFamily: 'monospace' }}>{run.nodeId}</span> →{' '}
+                    <Link to={`/executions/${run.executionId}`} style={{ fontFamily: 'monospace' }}>
+                      {run.executionId}
+                    </Link>
+                    {run.status ? ` · ${run.status}` : ''}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+
             <div style={{ display: 'grid', gap: 4 }}>
               <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Timestamps</div>
               <div style={{ fontSize: 13, color: 'var(--color-text)' }}>
@@ -467,17 +571,21 @@ export default function ExecutionDetail() {
             </div>
 
             <div style={{ display: 'grid', gap: 8 }}>
-              <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Graph</div>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', gap: 8 }}>
+                <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Graph</div>
+                <div style={{ fontSize: 11, color: 'var(--color-text-subtle)' }}>hover a node for its error, click to jump to its output and logs</div>
+              </div>
               {graphError ? <div style={{ color: 'var(--color-error)' }}>{graphError}</div> : null}
-              {!styledGraphNodes || !graph ? (
+              {!styledGraphNodes || !styledGraphEdges ? (
                 <div style={{ color: 'var(--color-text-subtle)' }}>loading graph...</div>
               ) : (
                 <div style={{ border: '1px solid var(--color-border)', borderRadius: 10, overflow: 'hidden' }}>
                   <CreateWorkFlow
                     initialNodes={styledGraphNodes}
-                    initialEdges={graph.edges}
+                    initialEdges={styledGraphEdges}
                     readOnly
                     syncFromProps
+                    nodeRuns={nodeRuns}
                     onNodeSelect={(nodeId) => {
                       if (nodeId) setFocusNodeId(nodeId)
                     }}
@@ -505,7 +613,20 @@ export default function ExecutionDetail() {
                         outline: highlightNodeId === nodeId ? '2px solid var(--color-primary)' : undefined,
                       }}
                     >
-                      <div style={{ fontSize: 12, color: 'var(--color-text-muted)', marginBottom: 8 }}>node: {nodeId}</div>
+                      <div style={{ fontSize: 12, color: 'var(--color-text-muted)', marginBottom: 8 }}>
+                        node: {nodeId}
+                        {branchTakenByNodeId[nodeId] ? (
+                          <span
+                            style={{
+                              marginLeft: 8,
+                              fontWeight: 600,
+                              color: branchTakenByNodeId[nodeId] === 'true' ? 'var(--color-success)' : 'var(--color-error)',
+                            }}
+                          >
+                            → {branchTakenByNodeId[nodeId]} branch
+                          </span>
+                        ) : null}
+                      </div>
                       {renderNodeOutput(output)}
                     </div>
                   ))}
@@ -551,6 +672,7 @@ export default function ExecutionDetail() {
                             >
                               {String(state?.status || 'unknown')}
                             </span>
+                            {state?.reused ? <span style={{ marginLeft: 6, fontSize: 11, color: 'var(--color-text-subtle)' }}>reused</span> : null}
                           </td>
                           <td style={{ padding: '10px 6px', fontSize: 12, color: 'var(--color-text)' }}>
                             {state?.startedAt ? new Date(state.startedAt).toLocaleString() : '—'}
@@ -567,40 +689,30 @@ export default function ExecutionDetail() {
               )}
             </div>
 
-            <div style={{ display: 'grid', gap: 8 }}>
+            <div id="execution-logs" style={{ display: 'grid', gap: 8 }}>
               <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>Logs</div>
-              {execution.logs.length === 0 ? (
-                <div style={{ color: 'var(--color-text-subtle)' }}>no logs</div>
-              ) : (
-                <div style={{ display: 'grid', gap: 6 }}>
-                  {execution.logs.map((l, idx) => (
-                    <div
-                      key={idx}
-                      id={l.nodeId && firstLogIndexByNodeId[l.nodeId] === idx ? `node-log-${l.nodeId}` : undefined}
-                      style={{
-                        border: '1px solid var(--color-border)',
-                        borderRadius: 8,
-                        padding: 10,
-                        background: 'var(--color-bg)',
-                        display: 'grid',
-                        gap: 4,
-                        outline: l.nodeId && highlightNodeId === l.nodeId ? '2px solid var(--color-primary)' : undefined,
-                      }}
-                    >
-                      <div style={{ display: 'flex', justifyContent: 'space-between', gap: 12 }}>
-                        <div style={{ fontWeight: 600 }}>{l.level}</div>
-                        <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>{new Date(l.timestamp).toLocaleString()}</div>
-                      </div>
-                      <div style={{ fontSize: 13 }}>{l.message}</div>
-                      {l.nodeId ? <div style={{ fontSize: 12, color: 'var(--color-text-muted)' }}>node: {l.nodeId}</div> : null}
-                    </div>
-                  ))}
-                </div>
-              )}
+              <LogExplorer
+                executionId={execution.id}
+                logs={execution.logs}
+                startedAt={execution.startedAt}
+                highlightNodeId={highlightNodeId}
+                live={inProgress}
+                onNodeClick={setFocusNodeId}
+              />
             </div>
           </div>
         )}
       </div>
+
+      {rerunPlan ? (
+        <RerunDialog
+          plan={rerunPlan}
+          busy={rerunBusy}
+          error={rerunError}
+          onConfirm={() => void confirmRerun()}
+          onCancel={() => setRerun(undefined)}
+        />
+      ) : null}
     </div>
   )
 }
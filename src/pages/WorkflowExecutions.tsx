@@ -1,7 +1,8 @@
-import { useMemo } from 'react'
-import { Link, useParams } from 'react-router-dom'
+import { useMemo, useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
 import { useWorkflow, useWorkflowExecutions } from '../lib/hooks'
-import type { ExecutionStatus } from '../lib/api'
+import ExecutionStatusBadge from '../components/ExecutionStatusBadge'
+import { formatDuration } from '../lib/executionOverlay'
 
 function ExecutionSkeleton() {
   return (
@@ -15,33 +16,6 @@ function ExecutionSkeleton() {
   )
 }
 
-function getStatusBadge(status: ExecutionStatus) {
-  switch (status) {
-    case 'success':
-      return <span className="badge badge-success"><span className="status-dot status-dot-success" style={{ marginRight: 6 }} />Success</span>
-    case 'failed':
-      return <span className="badge badge-error"><span className="status-dot status-dot-error" style={{ marginRight: 6 }} />Failed</span>
-    case 'running':
-      return <span className="badge badge-primary"><span className="status-dot status-dot-running" style={{ marginRight: 6 }} />Running</span>
-    case 'queued':
-      return <span className="badge badge-warning"><span className="status-dot status-dot-warning" style={{ marginRight: 6 }} />Queued</span>
-    case 'cancelled':
-      return <span className="badge badge-neutral"><span className="status-dot status-dot-neutral" style={{ marginRight: 6 }} />Cancelled</span>
-    default:
-      return <span className="badge badge-neutral">{status}</span>
-  }
-}
-
-function formatDuration(start: string, end?: string): string {
-  const startDate = new Date(start)
-  const endDate = end ? new Date(end) : new Date()
-  const diffMs = endDate.getTime() - startDate.getTime()
-  
-  if (diffMs < 1000) return `${diffMs}ms`
-  if (diffMs < 60000) return `${(diffMs / 1000).toFixed(1)}s`
-  return `${Math.floor(diffMs / 60000)}m ${Math.floor((diffMs % 60000) / 1000)}s`
-}
-
 export default function WorkflowExecutions() {
   const params = useParams()
   const workflowId = params.id
@@ -51,6 +25,23 @@ export default function WorkflowExecutions() {
 
   const title = useMemo(() => workflow?.name || 'Executions', [workflow?.name])
 
+  const navigate = useNavigate()
+  // two runs to compare; picking a third drops the earliest pick
+  const [selected, setSelected] = useState<string[]>([])
+
+  function toggleSelected(id: string) {
+    setSelected((cur) => (cur.includes(id) ? cur.filter((x) => x !== id) : [...cur, id].slice(-2)))
+  }
+
+  function openCompare() {
+    // older run on the left as the baseline
+    const [a, b] = executions
+      .filter((e) => selected.includes(e.id))
+      .sort((x, y) => x.createdAt.localeCompare(y.createdAt))
+      .map((e) => e.id)
+    if (a && b) navigate(`/workflows/${workflowId}/executions/compare?a=${a}&b=${b}`)
+  }
+
   return (
     <div className="container-narrow" style={{ paddingTop: 40, paddingBottom: 40 }}>
       <div className="page-header">
@@ -59,6 +50,15 @@ export default function WorkflowExecutions() {
           <h1 className="page-title">{title}</h1>
         </div>
         <div className="flex gap-2">
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={openCompare}
+            disabled={selected.length !== 2}
+            title={selected.length === 2 ? 'Compare the two selected runs' : 'Select two runs to compare'}
+          >
+            Compare{selected.length ? ` (${selected.length}/2)` : ''}
+          </button>
           <Link to={`/editor/${workflowId}`} className="btn btn-secondary">
             <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
               <path d="m15 18-6-6 6-6"/>
@@ -97,21 +97,34 @@ export default function WorkflowExecutions() {
           </div>
         ) : (
           executions.map((e) => (
-            <Link key={e.id} to={`/executions/${e.id}`} className="list-item" style={{ textDecoration: 'none', color: 'inherit' }}>
-              <div className="list-item-content">
-                <div className="flex items-center gap-2">
-                  {getStatusBadge(e.status)}
+            <div key={e.id} className="list-item" style={{ gap: 12 }}>
+              <input
+                type="checkbox"
+                checked={selected.includes(e.id)}
+                onChange={() => toggleSelected(e.id)}
+                aria-label="Select for comparison"
+              />
+              <Link
+                to={`/executions/${e.id}`}
+                className="flex items-center justify-between gap-3"
+                style={{ flex: 1, minWidth: 0, textDecoration: 'none', color: 'inherit' }}
+              >
+                <div className="list-item-content">
+                  <div className="flex items-center gap-2">
+                    <ExecutionStatusBadge status={e.status} />
+                  </div>
+                  <div className="list-item-subtitle">
+                    Started {new Date(e.createdAt).toLocaleString()}
+                    {e.triggerNodeId && <span> · Trigger: {e.triggerType ?? 'trigger'} ({e.triggerNodeId})</span>}
+                  </div>
                 </div>
-                <div className="list-item-subtitle">
-                  Started {new Date(e.createdAt).toLocaleString()}
+                <div className="text-sm text-muted">
+                  {e.startedAt && (
+                    <span>{formatDuration(e.startedAt, e.finishedAt ?? undefined)}</span>
+                  )}
                 </div>
-              </div>
-              <div className="text-sm text-muted">
-                {e.startedAt && (
-                  <span>{formatDuration(e.startedAt, e.finishedAt ?? undefined)}</span>
-                )}
-              </div>
-            </Link>
+              </Link>
+            </div>
           ))
         )}
       </div>